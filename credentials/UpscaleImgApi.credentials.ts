@@ -1,5 +1,6 @@
 import type {
 	IAuthenticateGeneric,
+	ICredentialTestRequest,
 	ICredentialType,
 	INodeProperties,
 } from 'n8n-workflow';
@@ -18,6 +19,31 @@ export class UpscaleImgApi implements ICredentialType {
 			default: '',
 			required: true,
 		},
+		{
+			displayName: 'Base URL',
+			name: 'baseUrl',
+			type: 'string',
+			default: 'https://upscaleimg.app/api/v1',
+			required: true,
+			description: 'Base URL of the UpscaleIMG API. Change this to route requests through a proxy or a local mock.',
+		},
+		{
+			displayName: 'Allowed Download Hosts',
+			name: 'allowedDownloadHosts',
+			type: 'string',
+			default: '',
+			placeholder: 'upscaleimg.app, *.upscaleimg.app',
+			description:
+				"Comma-separated hosts that upscaled images may be downloaded from. Use * as a wildcard, e.g. *.example.com. When empty, the Base URL's host, upscaleimg.app and its subdomains are allowed. Add your storage or CDN host to widen it, or enter * for any public host.",
+		},
+		{
+			displayName: 'Allow Private Network Downloads',
+			name: 'allowPrivateDownloads',
+			type: 'boolean',
+			default: false,
+			description:
+				'Whether upscaled images and input image URLs may be downloaded from private, loopback and link-local addresses, e.g. from a local mock or an internal file server',
+		},
 	];
 
 	authenticate: IAuthenticateGeneric = {
@@ -28,4 +54,12 @@ export class UpscaleImgApi implements ICredentialType {
 			},
 		},
 	};
+
+	test: ICredentialTestRequest = {
+		request: {
+			baseURL: '={{$credentials.baseUrl.replace(/\\/+$/, "")}}',
+			url: '/usage',
+			method: 'GET',
+		},
+	};
 }
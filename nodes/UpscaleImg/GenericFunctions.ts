@@ -0,0 +1,1324 @@
+import type {
+	IBinaryData,
+	ICredentialDataDecryptedObject,
+	IDataObject,
+	IExecuteFunctions,
+	IHookFunctions,
+	IHttpRequestMethods,
+	IHttpRequestOptions,
+	INode,
+	IWebhookFunctions,
+	JsonObject,
+} from 'n8n-workflow';
+import { NodeApiError, NodeOperationError, sleep } from 'n8n-workflow';
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { lookup } from 'dns/promises';
+import FormData from 'form-data';
+import { BlockList, isIP } from 'net';
+import type { Readable } from 'stream';
+import { pipeline, Transform } from 'stream';
+
+import type { ImageDimensions, ImageSample } from './ImageUtils';
+import {
+	detectImageFormat,
+	getImageDimensions,
+	IMAGE_TAIL_SIZE,
+	isImageComplete,
+	JPEG_EOI,
+} from './ImageUtils';
+
+export const DEFAULT_BASE_URL = 'https://upscaleimg.app/api/v1';
+
+/**
+ * The UpscaleIMG domain and its storage subdomains. Results are downloaded from these and
+ * from the Base URL's host when Allowed Download Hosts is left empty.
+ */
+export const DEFAULT_DOWNLOAD_HOSTS = 'upscaleimg.app, *.upscaleimg.app';
+
+export type FormField = [
+	name: string,
+	value: string | Buffer | Readable,
+	options?: FormData.AppendOptions,
+];
+
+export function createFormData(fields: FormField[]): FormData {
+	const form = new FormData();
+	for (const [name, value, options] of fields) {
+		form.append(name, value, options);
+	}
+	return form;
+}
+
+/**
+ * Sends a request to the UpscaleIMG API. The base URL is taken from the credential and
+ * the Authorization header is applied by the credential's `authenticate` block.
+ */
+export async function upscaleImgApiRequest(
+	this: IExecuteFunctions | IHookFunctions | IWebhookFunctions,
+	method: IHttpRequestMethods,
+	endpoint: string,
+	body?: IHttpRequestOptions['body'],
+): Promise<IDataObject> {
+	const credentials = await this.getCredentials('upscaleImgApi');
+	const baseUrl = ((credentials.baseUrl as string) || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+	const requestOptions: IHttpRequestOptions = {
+		method,
+		url: `${baseUrl}${endpoint}`,
+	};
+	if (body !== undefined) {
+		requestOptions.body = body;
+	}
+
+	return (await this.helpers.httpRequestWithAuthentication.call(
+		this,
+		'upscaleImgApi',
+		requestOptions,
+	)) as IDataObject;
+}
+
+/**
+ * Private, loopback, link-local and other non-public networks that result downloads must not
+ * reach unless the credential allows it.
+ */
+const PRIVATE_NETWORKS = new BlockList();
+PRIVATE_NETWORKS.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('100.64.0.0', 10, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('169.254.0.0', 16, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_NETWORKS.addAddress('::', 'ipv6');
+PRIVATE_NETWORKS.addAddress('::1', 'ipv6');
+PRIVATE_NETWORKS.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_NETWORKS.addSubnet('fe80::', 10, 'ipv6');
+
+export function isPrivateAddress(address: string): boolean {
+	const family = isIP(address);
+	return family !== 0 && PRIVATE_NETWORKS.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Whether a host name matches one of the comma-separated patterns, where `*` matches any
+ * characters.
+ */
+export function isAllowedDownloadHost(hostname: string, allowedHosts: string): boolean {
+	return allowedHosts
+		.split(',')
+		.map((pattern) => pattern.trim().toLowerCase())
+		.filter(Boolean)
+		.some((pattern) => wildcardToRegExp(pattern).test(hostname.toLowerCase()));
+}
+
+/**
+ * Returns the credential's Allowed Download Hosts, or the default hosts together with the
+ * Base URL's host when the field is empty.
+ */
+export function getAllowedDownloadHosts(credentials: ICredentialDataDecryptedObject): string {
+	const configured = ((credentials.allowedDownloadHosts as string | undefined) ?? '').trim();
+	if (configured) {
+		return configured;
+	}
+	const baseUrl = (credentials.baseUrl as string) || DEFAULT_BASE_URL;
+	const baseHost = URL.canParse(baseUrl) ? new URL(baseUrl).hostname : undefined;
+	return baseHost && !isAllowedDownloadHost(baseHost, DEFAULT_DOWNLOAD_HOSTS)
+		? `${DEFAULT_DOWNLOAD_HOSTS}, ${baseHost}`
+		: DEFAULT_DOWNLOAD_HOSTS;
+}
+
+async function resolveAddresses(hostname: string): Promise<string[]> {
+	if (isIP(hostname)) {
+		return [hostname];
+	}
+	try {
+		return (await lookup(hostname, { all: true })).map(({ address }) => address);
+	} catch {
+		// The download fails on the same lookup and reports it as a network error
+		return [];
+	}
+}
+
+function createDownloadBlockedError(
+	node: INode,
+	reason: string,
+	itemIndex?: number,
+): NodeOperationError {
+	return setErrorCode(
+		new NodeOperationError(node, 'The result URL is not allowed', {
+			description: reason,
+			itemIndex,
+		}),
+		ERROR_CODES.downloadBlocked,
+	);
+}
+
+/**
+ * How a download's URLs are checked: whether the host must be in the credential's Allowed
+ * Download Hosts, and the error that reports a blocked URL.
+ */
+interface DownloadCheck {
+	allowlist: boolean;
+	block: (reason: string) => NodeOperationError;
+}
+
+/**
+ * Returns the target of a redirect the HTTP helper refused to follow, or undefined for
+ * anything that is not a redirect.
+ */
+function getRedirectLocation(error: unknown): string | undefined {
+	const statusCode = getErrorStatusCode(error);
+	if (statusCode === undefined || statusCode < 300 || statusCode >= 400) {
+		return undefined;
+	}
+	const err = error as IDataObject & { cause?: IDataObject };
+	for (const response of [err?.response, err?.cause?.response]) {
+		const location = ((response as IDataObject | undefined)?.headers as IDataObject | undefined)
+			?.location;
+		if (typeof location === 'string' && location) {
+			return location;
+		}
+	}
+	return undefined;
+}
+
+const MAX_DOWNLOAD_REDIRECTS = 5;
+
+/**
+ * Checks a download URL against the credential's Allowed Download Hosts, if the check uses
+ * them, and rejects hosts that resolve to a private network, so a misconfigured base URL, a
+ * compromised proxy or a crafted image URL cannot make n8n fetch internal addresses.
+ */
+async function assertDownloadAllowed(
+	this: IExecuteFunctions | IWebhookFunctions,
+	url: string,
+	check: DownloadCheck,
+): Promise<void> {
+	const credentials = await this.getCredentials('upscaleImgApi');
+	const allowedHosts = getAllowedDownloadHosts(credentials);
+
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	} catch {
+		throw check.block(`"${url}" is not a valid URL.`);
+	}
+	if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+		throw check.block(`Only HTTP and HTTPS downloads are allowed, not ${parsed.protocol}.`);
+	}
+
+	const hostname = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+	if (check.allowlist && !isAllowedDownloadHost(hostname, allowedHosts)) {
+		throw check.block(
+			`${hostname} is not in the Allowed Download Hosts of the UpscaleIMG API credential. Add it there if you trust it.`,
+		);
+	}
+	if (credentials.allowPrivateDownloads !== true) {
+		const privateAddress = (await resolveAddresses(hostname)).find(isPrivateAddress);
+		if (privateAddress) {
+			throw check.block(
+				`${hostname} resolves to the private address ${privateAddress}. Enable Allow Private Network Downloads in the UpscaleIMG API credential to download from it.`,
+			);
+		}
+	}
+}
+
+/**
+ * Sends an unauthenticated GET request and follows its redirects itself, so every target is
+ * checked before it is requested.
+ */
+async function getCheckedUrl(
+	this: IExecuteFunctions | IWebhookFunctions,
+	url: string,
+	encoding: IHttpRequestOptions['encoding'],
+	check: DownloadCheck,
+): Promise<unknown> {
+	let currentUrl = url;
+	for (let redirects = 0; ; redirects++) {
+		await assertDownloadAllowed.call(this, currentUrl, check);
+
+		// The helper resolves the host again and takes no custom lookup, so that cannot be pinned
+		const downloadOptions: IHttpRequestOptions = {
+			method: 'GET',
+			url: currentUrl,
+			encoding,
+			disableFollowRedirect: true,
+		};
+		try {
+			return await this.helpers.httpRequest(downloadOptions);
+		} catch (error) {
+			const location = getRedirectLocation(error);
+			if (location === undefined) {
+				throw error;
+			}
+			if (redirects >= MAX_DOWNLOAD_REDIRECTS) {
+				throw check.block(`The download was redirected more than ${MAX_DOWNLOAD_REDIRECTS} times.`);
+			}
+			currentUrl = URL.canParse(location, currentUrl)
+				? new URL(location, currentUrl).toString()
+				: location;
+		}
+	}
+}
+
+/**
+ * Downloads a file from a signed result URL as a stream, so it can be piped into the binary
+ * data store without being held in memory. The URL points to a different host than the
+ * API, so this deliberately uses the unauthenticated helper and sends no headers at all.
+ */
+export async function downloadSignedUrl(
+	this: IExecuteFunctions | IWebhookFunctions,
+	url: string,
+	itemIndex?: number,
+): Promise<Readable> {
+	return (await getCheckedUrl.call(this, url, 'stream', {
+		allowlist: true,
+		block: (reason) => createDownloadBlockedError(this.getNode(), reason, itemIndex),
+	})) as Readable;
+}
+
+/**
+ * Fetches an image from a public URL. Like the signed-URL download, no credentials are sent.
+ * The URL comes from the workflow, so the download host allowlist does not apply to it.
+ */
+export async function downloadImageUrl(
+	this: IExecuteFunctions,
+	url: string,
+	itemIndex?: number,
+): Promise<Buffer> {
+	let arrayBuffer: unknown;
+	try {
+		arrayBuffer = await getCheckedUrl.call(this, url, 'arraybuffer', {
+			allowlist: false,
+			block: (reason) =>
+				setErrorCode(
+					new NodeOperationError(this.getNode(), 'The image URL is not allowed', {
+						description: reason,
+						itemIndex,
+					}),
+					ERROR_CODES.invalidInput,
+				),
+		});
+	} catch (error) {
+		if (error instanceof NodeOperationError) {
+			throw error;
+		}
+		const statusCode = getErrorStatusCode(error);
+		throw setErrorCode(
+			new NodeOperationError(this.getNode(), 'Could not download the image from the URL', {
+				description:
+					statusCode !== undefined
+						? `The server responded with status ${statusCode}.`
+						: `The server could not be reached: ${(error as Error)?.message}`,
+				itemIndex,
+			}),
+			statusCode !== undefined ? ERROR_CODES.invalidInput : ERROR_CODES.networkError,
+		);
+	}
+	return Buffer.from(arrayBuffer as ArrayBuffer);
+}
+
+/**
+ * Number of bytes at the start of a streamed file that are kept for the format checks.
+ * Large enough to reach the size in JPEG files with big EXIF blocks.
+ */
+const SAMPLE_HEAD_SIZE = 256 * 1024;
+
+export interface ContentSample extends ImageSample {
+	/** Hex SHA-256 of the whole content */
+	hash: string;
+}
+
+/**
+ * Reads the start and the end of a file, its size and its SHA-256. A stream is consumed
+ * chunk by chunk and only the sampled bytes are kept.
+ */
+export async function sampleContent(content: Buffer | Readable): Promise<ContentSample> {
+	if (Buffer.isBuffer(content)) {
+		return {
+			head: content,
+			tail: content,
+			size: content.length,
+			hash: createHash('sha256').update(content).digest('hex'),
+		};
+	}
+
+	const sampler = createSampler();
+	for await (const chunk of content) {
+		sampler.update(chunk as Buffer | string);
+	}
+	return sampler.digest();
+}
+
+/**
+ * Passes a stream through unchanged while sampling it. `getSample` is complete once the
+ * returned stream has been read to the end.
+ */
+export function tapContent(source: Readable): {
+	content: Readable;
+	getSample: () => ContentSample;
+} {
+	const sampler = createSampler();
+	const content = new Transform({
+		transform(chunk: Buffer | string, _encoding, callback) {
+			sampler.update(chunk);
+			callback(null, chunk);
+		},
+	});
+	// Errors of the source reach whoever reads `content`
+	pipeline(source, content, () => {});
+	return { content, getSample: () => sampler.digest() };
+}
+
+function createSampler(): {
+	update: (data: Buffer | string) => void;
+	digest: () => ContentSample;
+} {
+	const hash = createHash('sha256');
+	let head = Buffer.alloc(0);
+	let tail = Buffer.alloc(0);
+	let size = 0;
+	let jpegEndOffset: number | undefined;
+
+	return {
+		update(data) {
+			const chunk = Buffer.isBuffer(data) ? data : Buffer.from(data);
+			hash.update(chunk);
+			if (chunk.length) {
+				// The marker may be split between two chunks
+				if (tail[tail.length - 1] === 0xff && chunk[0] === 0xd9) {
+					jpegEndOffset = size - 1;
+				}
+				const index = chunk.lastIndexOf(JPEG_EOI);
+				if (index !== -1) {
+					jpegEndOffset = size + index;
+				}
+			}
+			size += chunk.length;
+			if (head.length < SAMPLE_HEAD_SIZE) {
+				head = Buffer.concat([head, chunk.subarray(0, SAMPLE_HEAD_SIZE - head.length)]);
+			}
+			tail = Buffer.concat([tail, chunk]);
+			tail = tail.subarray(Math.max(0, tail.length - IMAGE_TAIL_SIZE));
+		},
+		digest: () => ({ head, tail, size, jpegEndOffset, hash: hash.copy().digest('hex') }),
+	};
+}
+
+/**
+ * What the API says about a result, to check the downloaded file against.
+ */
+export interface ExpectedImage {
+	size?: number;
+	mimeType: string;
+	width?: number;
+	height?: number;
+}
+
+/**
+ * Checks a downloaded result against the API response: its size, the format from its magic
+ * bytes, that it is complete and, with `verifyDimensions`, its width and height. Throws a
+ * `RESULT_MISMATCH` error, which Retry on Failure retries, when anything differs.
+ */
+export function verifyDownloadedImage(
+	node: INode,
+	sample: ImageSample,
+	expected: ExpectedImage,
+	verifyDimensions: boolean,
+	itemIndex?: number,
+): void {
+	const problems: string[] = [];
+
+	if (typeof expected.size === 'number' && sample.size !== expected.size) {
+		problems.push(`Expected ${expected.size} bytes but received ${sample.size}.`);
+	}
+
+	const format = detectImageFormat(sample.head);
+	if (!format) {
+		problems.push('The downloaded file is not an image.');
+	} else {
+		if (format.mimeType !== expected.mimeType) {
+			problems.push(`Expected ${expected.mimeType} but received ${format.mimeType}.`);
+		}
+		if (!isImageComplete(sample, format.format)) {
+			problems.push('The downloaded image is truncated.');
+		}
+		if (verifyDimensions) {
+			const dimensions = getImageDimensions(sample.head, format.format);
+			if (dimensions?.width !== expected.width || dimensions?.height !== expected.height) {
+				const received = dimensions ? `${dimensions.width}x${dimensions.height}` : 'an unknown size';
+				problems.push(`Expected ${expected.width}x${expected.height} pixels but received ${received}.`);
+			}
+		}
+	}
+
+	if (problems.length) {
+		throw setErrorCode(
+			new NodeOperationError(node, 'The downloaded image does not match the API response', {
+				description: `${problems.join(' ')} The signed URL may have expired or returned an error page.`,
+				itemIndex,
+			}),
+			ERROR_CODES.resultMismatch,
+		);
+	}
+}
+
+/**
+ * Streams a result into binary data and verifies it against the API response afterwards.
+ */
+export async function downloadResult(
+	this: IExecuteFunctions | IWebhookFunctions,
+	url: string,
+	fileName: string,
+	expected: ExpectedImage,
+	verifyDimensions = false,
+	itemIndex?: number,
+): Promise<IBinaryData> {
+	const { content, getSample } = tapContent(await downloadSignedUrl.call(this, url, itemIndex));
+	const binary = await this.helpers.prepareBinaryData(content, fileName, expected.mimeType);
+	verifyDownloadedImage(this.getNode(), getSample(), expected, verifyDimensions, itemIndex);
+	return binary;
+}
+
+export const DEFAULT_OUTPUT_FILE_NAME = '{name}_upscaled.{ext}';
+
+const RESERVED_FILE_NAME_CHARACTERS = '\\/:*?"<>|';
+
+function isUnsafeFileNameCharacter(character: string): boolean {
+	const code = character.charCodeAt(0);
+	// Control characters, i.e. 0x00 to 0x1f and DEL
+	return code < 0x20 || code === 0x7f || RESERVED_FILE_NAME_CHARACTERS.includes(character);
+}
+
+/**
+ * Replaces characters that are not allowed in file names on common file systems, as well as
+ * leading and trailing dots and spaces.
+ */
+export function sanitizeFileName(fileName: string): string {
+	return Array.from(fileName, (character) =>
+		isUnsafeFileNameCharacter(character) ? '_' : character,
+	)
+		.join('')
+		.replace(/^[\s.]+|[\s.]+$/g, '');
+}
+
+/**
+ * Renders an output file name template. Unknown placeholders are left as they are. When
+ * the rendered name has no extension, the result's extension is appended.
+ */
+export function getOutputFileName(
+	template: string,
+	values: Record<string, string | number>,
+): string {
+	const rendered = template.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+		key in values ? String(values[key]) : placeholder,
+	);
+
+	let fileName =
+		sanitizeFileName(rendered) || sanitizeFileName(`${values.name}_upscaled`) || 'image_upscaled';
+	if (!/\.[a-z0-9]+$/i.test(fileName)) {
+		fileName = `${fileName}.${values.ext}`;
+	}
+	return fileName;
+}
+
+/**
+ * Converts a pattern where `*` matches any characters into an anchored regular expression.
+ */
+export function wildcardToRegExp(pattern: string): RegExp {
+	const escaped = pattern
+		.split('*')
+		.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+		.join('.*');
+	return new RegExp(`^${escaped}$`);
+}
+
+export function isHttpUrl(value: string): boolean {
+	try {
+		const { protocol } = new URL(value);
+		return protocol === 'http:' || protocol === 'https:';
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Returns the last path segment of a URL, or undefined when it does not look like a file name.
+ */
+export function getFileNameFromUrl(url: string): string | undefined {
+	try {
+		const segment = new URL(url).pathname.split('/').pop() ?? '';
+		const fileName = decodeURIComponent(segment);
+		return /\.[a-z0-9]+$/i.test(fileName) ? fileName : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Runs `worker` for every index in `0..count-1` with at most `limit` calls in flight.
+ * Results are returned in index order. The first rejection stops scheduling new work; the
+ * calls already in flight are awaited before the returned promise rejects with it, so
+ * nothing keeps running after the caller has failed.
+ */
+export async function runWithConcurrency<T>(
+	count: number,
+	limit: number,
+	worker: (index: number) => Promise<T>,
+): Promise<T[]> {
+	const results: T[] = new Array(count);
+	let nextIndex = 0;
+	let failure: { error: unknown } | undefined;
+
+	const runNext = async (): Promise<void> => {
+		while (!failure && nextIndex < count) {
+			const index = nextIndex++;
+			try {
+				results[index] = await worker(index);
+			} catch (error) {
+				failure ??= { error };
+			}
+		}
+	};
+
+	await Promise.all(Array.from({ length: Math.min(limit, count) }, () => runNext()));
+
+	if (failure) {
+		throw failure.error;
+	}
+	return results;
+}
+
+export interface RetryOptions {
+	maxAttempts: number;
+	baseDelay: number;
+	maxDelay: number;
+	respectRetryAfter: boolean;
+	retryOnStatusCodes: number[];
+}
+
+export const DEFAULT_RETRY_STATUS_CODES = [429, 500, 502, 503, 504];
+
+const RETRYABLE_NETWORK_ERRORS = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN'];
+
+/**
+ * Reads the `retry` fixed collection of the node's Options. Without it, requests are tried once.
+ */
+export function getRetryOptions(options: IDataObject): RetryOptions | undefined {
+	const settings = (options.retry as IDataObject | undefined)?.settings as IDataObject | undefined;
+	if (!settings) {
+		return undefined;
+	}
+
+	const statusCodes = settings.retryOnStatusCodes as Array<number | string> | undefined;
+
+	return {
+		maxAttempts: Math.max(1, Math.floor((settings.maxAttempts as number) ?? 3)),
+		baseDelay: Math.max(0, (settings.baseDelay as number) ?? 1000),
+		maxDelay: Math.max(0, (settings.maxDelay as number) ?? 30000),
+		respectRetryAfter: (settings.respectRetryAfter as boolean) ?? true,
+		retryOnStatusCodes: (statusCodes ?? DEFAULT_RETRY_STATUS_CODES).map(Number),
+	};
+}
+
+export function getErrorStatusCode(error: unknown): number | undefined {
+	const err = error as IDataObject & { cause?: IDataObject };
+	const candidates = [
+		err?.httpCode,
+		(err?.response as IDataObject | undefined)?.status,
+		err?.statusCode,
+		(err?.cause?.response as IDataObject | undefined)?.status,
+	];
+	for (const candidate of candidates) {
+		const code = Number(candidate);
+		if (candidate !== undefined && candidate !== null && Number.isInteger(code) && code > 0) {
+			return code;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Returns the delay requested by a `Retry-After` response header in milliseconds.
+ * Both the delta-seconds and the HTTP-date forms are supported.
+ */
+export function getRetryAfterDelay(error: unknown): number | undefined {
+	const err = error as IDataObject & { cause?: IDataObject };
+	const headers = ((err?.response as IDataObject | undefined)?.headers ??
+		(err?.cause?.response as IDataObject | undefined)?.headers) as IDataObject | undefined;
+	const value = headers?.['retry-after'];
+	if (value === undefined || value === null || value === '') {
+		return undefined;
+	}
+
+	const seconds = Number(value);
+	if (!Number.isNaN(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+
+	const date = Date.parse(String(value));
+	return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function isRetryableError(error: unknown, retryOptions: RetryOptions): boolean {
+	// A bad download is worth another try, the next one may be complete
+	if (getErrorCode(error) === ERROR_CODES.resultMismatch) {
+		return true;
+	}
+	const statusCode = getErrorStatusCode(error);
+	if (statusCode !== undefined) {
+		return retryOptions.retryOnStatusCodes.includes(statusCode);
+	}
+	const code = (error as IDataObject)?.code ?? ((error as IDataObject)?.cause as IDataObject)?.code;
+	return RETRYABLE_NETWORK_ERRORS.includes(String(code));
+}
+
+/**
+ * Exponential backoff with equal jitter: half of the delay is fixed, the other half random.
+ */
+function getBackoffDelay(attempt: number, retryOptions: RetryOptions): number {
+	const exponential = Math.min(retryOptions.maxDelay, retryOptions.baseDelay * 2 ** (attempt - 1));
+	return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+/**
+ * Calls `request` until it succeeds, the error is not retryable or `maxAttempts` is reached.
+ * Resolves with the result and the number of attempts that were made.
+ */
+export async function withRetry<T>(
+	request: () => Promise<T>,
+	retryOptions?: RetryOptions,
+): Promise<{ result: T; attempts: number }> {
+	const maxAttempts = retryOptions?.maxAttempts ?? 1;
+
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return { result: await request(), attempts: attempt };
+		} catch (error) {
+			if (!retryOptions || attempt >= maxAttempts || !isRetryableError(error, retryOptions)) {
+				throw error;
+			}
+
+			// Max Delay also caps Retry-After, so a server cannot hold the execution for hours
+			const retryAfter = retryOptions.respectRetryAfter ? getRetryAfterDelay(error) : undefined;
+			await sleep(
+				retryAfter !== undefined
+					? Math.min(retryAfter, retryOptions.maxDelay)
+					: getBackoffDelay(attempt, retryOptions),
+			);
+		}
+	}
+}
+
+/**
+ * Stable error codes written to the `code` field of `continueOnFail` output.
+ */
+export const ERROR_CODES = {
+	invalidApiKey: 'INVALID_API_KEY',
+	insufficientCredits: 'INSUFFICIENT_CREDITS',
+	subscriptionRequired: 'SUBSCRIPTION_REQUIRED',
+	imageTooLarge: 'IMAGE_TOO_LARGE',
+	unsupportedImage: 'UNSUPPORTED_IMAGE',
+	corruptImage: 'CORRUPT_IMAGE',
+	invalidRequest: 'INVALID_REQUEST',
+	rateLimited: 'RATE_LIMITED',
+	serverError: 'SERVER_ERROR',
+	networkError: 'NETWORK_ERROR',
+	apiError: 'API_ERROR',
+	downloadBlocked: 'DOWNLOAD_BLOCKED',
+	invalidResponse: 'INVALID_RESPONSE',
+	invalidInput: 'INVALID_INPUT',
+	limitReached: 'LIMIT_REACHED',
+	jobFailed: 'JOB_FAILED',
+	jobTimeout: 'JOB_TIMEOUT',
+	resultMismatch: 'RESULT_MISMATCH',
+	unknown: 'UNKNOWN_ERROR',
+} as const;
+
+const NETWORK_ERROR_CODES = [
+	...RETRYABLE_NETWORK_ERRORS,
+	'ENOTFOUND',
+	'ECONNABORTED',
+	'EHOSTUNREACH',
+	'ENETUNREACH',
+];
+
+/**
+ * Sets the stable error code on an error so it ends up in the `continueOnFail` output.
+ */
+export function setErrorCode<T extends Error>(error: T, code: string): T {
+	const withContext = error as T & { context?: IDataObject };
+	withContext.context = { ...withContext.context, code };
+	return error;
+}
+
+export function getErrorCode(error: unknown): string {
+	const code = ((error as { context?: IDataObject })?.context?.code as string) ?? undefined;
+	return code ?? ERROR_CODES.unknown;
+}
+
+/**
+ * Returns the parsed response body of a failed request, wherever the HTTP helper put it.
+ */
+export function getErrorResponseBody(error: unknown): JsonObject | undefined {
+	const err = error as IDataObject & { cause?: IDataObject };
+	const candidates = [
+		(err?.response as IDataObject | undefined)?.data,
+		(err?.cause?.response as IDataObject | undefined)?.data,
+		(err?.context as IDataObject | undefined)?.data,
+	];
+	for (let candidate of candidates) {
+		if (Buffer.isBuffer(candidate)) {
+			candidate = candidate.toString('utf8');
+		}
+		if (typeof candidate === 'string') {
+			try {
+				candidate = JSON.parse(candidate);
+			} catch {
+				continue;
+			}
+		}
+		if (candidate && typeof candidate === 'object' && !Array.isArray(candidate)) {
+			return candidate as JsonObject;
+		}
+	}
+	return undefined;
+}
+
+function getApiErrorMessage(body: JsonObject | undefined): string | undefined {
+	if (!body) {
+		return undefined;
+	}
+	const error = body.error as JsonObject | string | undefined;
+	if (typeof body.message === 'string') {
+		return body.message;
+	}
+	if (typeof error === 'string') {
+		return error;
+	}
+	if (error && typeof error.message === 'string') {
+		return error.message;
+	}
+	return undefined;
+}
+
+function describeApiError(
+	statusCode: number | undefined,
+	apiMessage: string | undefined,
+): { code: string; message: string; description: string } {
+	const text = (apiMessage ?? '').toLowerCase();
+
+	if (statusCode === 401) {
+		return {
+			code: ERROR_CODES.invalidApiKey,
+			message: 'Invalid UpscaleIMG API key',
+			description: 'Check the API key in the UpscaleIMG API credential, or generate a new one in the dashboard.',
+		};
+	}
+	if (statusCode === 402 || (statusCode === 403 && text.includes('credit'))) {
+		return {
+			code: ERROR_CODES.insufficientCredits,
+			message: 'Out of UpscaleIMG credits',
+			description: 'Your account has no credits left. Top up your balance in the UpscaleIMG dashboard.',
+		};
+	}
+	if (statusCode === 403) {
+		return {
+			code: ERROR_CODES.subscriptionRequired,
+			message: 'This upscale requires an UpscaleIMG subscription',
+			description: '4x upscaling is only available with an active subscription. Use 2x or upgrade your plan.',
+		};
+	}
+	if (statusCode === 413) {
+		return {
+			code: ERROR_CODES.imageTooLarge,
+			message: 'The image is too large for the UpscaleIMG API',
+			description: 'Reduce the file size or the dimensions of the input image and try again.',
+		};
+	}
+	if (statusCode === 415) {
+		return {
+			code: ERROR_CODES.unsupportedImage,
+			message: 'The image format is not supported by the UpscaleIMG API',
+			description: 'Provide the image as PNG, JPEG, WebP, GIF or BMP.',
+		};
+	}
+	if (statusCode === 400 || statusCode === 422) {
+		return {
+			code: ERROR_CODES.invalidRequest,
+			message: 'The UpscaleIMG API rejected the request',
+			description: apiMessage ?? 'Check the node parameters and the input image.',
+		};
+	}
+	if (statusCode === 429) {
+		return {
+			code: ERROR_CODES.rateLimited,
+			message: 'UpscaleIMG API rate limit reached',
+			description: 'Too many requests were sent. Lower the concurrency or enable Retry on Failure.',
+		};
+	}
+	if (statusCode !== undefined && statusCode >= 500) {
+		return {
+			code: ERROR_CODES.serverError,
+			message: 'The UpscaleIMG API had an internal error',
+			description: 'The service failed to process the request. Try again later or enable Retry on Failure.',
+		};
+	}
+	if (statusCode === undefined) {
+		return {
+			code: ERROR_CODES.networkError,
+			message: 'Could not reach the UpscaleIMG API',
+			description: 'Check the network connection and the Base URL in the UpscaleIMG API credential.',
+		};
+	}
+	return {
+		code: ERROR_CODES.apiError,
+		message: `The UpscaleIMG API returned status ${statusCode}`,
+		description: apiMessage ?? 'The request failed with an unexpected status code.',
+	};
+}
+
+/**
+ * Converts an error thrown by an UpscaleIMG API request into a `NodeApiError` that carries
+ * the status code, the API error body, a human-readable description and a stable code.
+ */
+export function toUpscaleImgApiError(node: INode, error: unknown, itemIndex: number): NodeApiError {
+	const statusCode = getErrorStatusCode(error);
+	const body = getErrorResponseBody(error);
+	const apiMessage = getApiErrorMessage(body);
+	const networkCode = String(
+		(error as IDataObject)?.code ?? ((error as IDataObject)?.cause as IDataObject)?.code ?? '',
+	);
+
+	let details = describeApiError(statusCode, apiMessage);
+	if (statusCode === undefined && !NETWORK_ERROR_CODES.includes(networkCode)) {
+		// Neither an HTTP status nor a known network failure, so keep the original message
+		details = {
+			code: ERROR_CODES.apiError,
+			message: (error as Error)?.message || details.message,
+			description: details.description,
+		};
+	}
+
+	const apiError = new NodeApiError(node, body ?? { message: (error as Error)?.message ?? '' }, {
+		message: details.message,
+		description:
+			apiMessage && details.description !== apiMessage
+				? `${details.description} API response: ${apiMessage}`
+				: details.description,
+		httpCode: statusCode !== undefined ? String(statusCode) : undefined,
+		itemIndex,
+	});
+	if (body) {
+		apiError.context.data = body;
+	}
+	return setErrorCode(apiError, details.code);
+}
+
+/**
+ * An image as described by the upscale API. Fields the node does not know about are kept.
+ */
+export interface UpscaleImageInfo extends IDataObject {
+	size: number;
+	width: number;
+	height: number;
+	mimeType: string;
+	fileExt: string;
+}
+
+/**
+ * The body of a successful upscale, of a completed job and of a cached result.
+ */
+export interface UpscaleResponse extends IDataObject {
+	original: UpscaleImageInfo;
+	result: UpscaleImageInfo & { url: string };
+}
+
+const UPSCALE_IMAGE_NUMBER_FIELDS = ['size', 'width', 'height'];
+const UPSCALE_IMAGE_STRING_FIELDS = ['mimeType', 'fileExt'];
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+
+function getUpscaleResponseProblems(body: unknown): string[] {
+	if (!isPlainObject(body)) {
+		return ['The response is not a JSON object.'];
+	}
+
+	const problems: string[] = [];
+	for (const part of ['original', 'result']) {
+		const image = body[part];
+		if (!isPlainObject(image)) {
+			problems.push(`\`${part}\` is missing.`);
+			continue;
+		}
+		const stringFields =
+			part === 'result' ? [...UPSCALE_IMAGE_STRING_FIELDS, 'url'] : UPSCALE_IMAGE_STRING_FIELDS;
+		for (const field of UPSCALE_IMAGE_NUMBER_FIELDS) {
+			const value = image[field];
+			if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+				problems.push(`\`${part}.${field}\` ${describeInvalidValue(value, 'a number')}.`);
+			}
+		}
+		for (const field of stringFields) {
+			const value = image[field];
+			if (typeof value !== 'string' || !value) {
+				problems.push(`\`${part}.${field}\` ${describeInvalidValue(value, 'a string')}.`);
+			}
+		}
+	}
+	return problems;
+}
+
+function isPlainObject(value: unknown): value is IDataObject {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeInvalidValue(value: unknown, expected: string): string {
+	if (value === undefined) {
+		return 'is missing';
+	}
+	return `should be ${expected} but is ${JSON.stringify(value)}`;
+}
+
+export function isUpscaleResponse(body: unknown): body is UpscaleResponse {
+	return getUpscaleResponseProblems(body).length === 0;
+}
+
+/**
+ * Checks an upscale response at runtime, so a changed API fails with the offending body
+ * instead of a `Cannot read properties of undefined` further down.
+ */
+export function validateUpscaleResponse(
+	node: INode,
+	body: unknown,
+	itemIndex: number,
+): UpscaleResponse {
+	const problems = getUpscaleResponseProblems(body);
+	if (!problems.length) {
+		return body as UpscaleResponse;
+	}
+
+	let text = JSON.stringify(body) ?? String(body);
+	if (text.length > MAX_RESPONSE_BODY_LENGTH) {
+		text = `${text.slice(0, MAX_RESPONSE_BODY_LENGTH)}…`;
+	}
+	// Not built from the body itself, whose `status` field would be taken for an HTTP status
+	const responseError = new NodeApiError(node, { message: problems.join(' ') }, {
+		message: 'UpscaleIMG returned an unexpected response',
+		description: `${problems.join(' ')} Response: ${text}`,
+		itemIndex,
+	});
+	responseError.context.data = body as IDataObject;
+	throw setErrorCode(responseError, ERROR_CODES.invalidResponse);
+}
+
+export interface AsyncJobOptions {
+	pollInterval: number;
+	timeout: number;
+	waitForResult: boolean;
+	resumeJobId?: string;
+}
+
+/**
+ * Reads the `asyncJob` fixed collection of the node's Options. Without it, images are
+ * upscaled in a single request.
+ */
+export function getAsyncJobOptions(options: IDataObject): AsyncJobOptions | undefined {
+	const settings = (options.asyncJob as IDataObject | undefined)?.settings as
+		| IDataObject
+		| undefined;
+	if (!settings) {
+		return undefined;
+	}
+
+	return {
+		pollInterval: Math.max(1, (settings.pollInterval as number) ?? 5),
+		timeout: Math.max(1, (settings.timeout as number) ?? 600),
+		waitForResult: (settings.waitForResult as boolean) ?? true,
+		resumeJobId: ((settings.resumeJobId as string) ?? '').trim() || undefined,
+	};
+}
+
+function setErrorJobId<T extends Error>(error: T, jobId: string): T {
+	const withContext = error as T & { context?: IDataObject };
+	withContext.context = { ...withContext.context, jobId };
+	return error;
+}
+
+/**
+ * Polls an upscale job until it completes and resolves with the completed job. Failed jobs,
+ * polling errors and the timeout are thrown with the job ID in the error context, so the
+ * job can be resumed instead of submitted again.
+ */
+export async function waitForJob(
+	this: IExecuteFunctions,
+	itemIndex: number,
+	jobId: string,
+	asyncJobOptions: AsyncJobOptions,
+	retryOptions?: RetryOptions,
+): Promise<IDataObject> {
+	const deadline = Date.now() + asyncJobOptions.timeout * 1000;
+
+	for (;;) {
+		let job: IDataObject;
+		try {
+			({ result: job } = await withRetry(
+				async () =>
+					await upscaleImgApiRequest.call(this, 'GET', `/jobs/${encodeURIComponent(jobId)}`),
+				retryOptions,
+			));
+		} catch (error) {
+			throw setErrorJobId(toUpscaleImgApiError(this.getNode(), error, itemIndex), jobId);
+		}
+
+		if (job.status === 'completed') {
+			return job;
+		}
+		if (job.status === 'failed') {
+			const apiMessage = getApiErrorMessage(job as JsonObject);
+			// Not built from the job itself, whose `status` field would be taken for an HTTP status
+			const jobError = new NodeApiError(this.getNode(), { message: apiMessage ?? '' }, {
+				message: `UpscaleIMG job ${jobId} failed`,
+				description: apiMessage ?? 'The job failed on the UpscaleIMG side.',
+				itemIndex,
+			});
+			jobError.context.data = job;
+			throw setErrorJobId(setErrorCode(jobError, ERROR_CODES.jobFailed), jobId);
+		}
+
+		if (Date.now() + asyncJobOptions.pollInterval * 1000 > deadline) {
+			const timeoutError = new NodeOperationError(
+				this.getNode(),
+				`UpscaleIMG job ${jobId} did not finish within ${asyncJobOptions.timeout} seconds`,
+				{
+					description: `The job is still processing. To pick it up without submitting a new job, set Options > Async Job > Resume Job ID to "${jobId}".`,
+					itemIndex,
+				},
+			);
+			throw setErrorJobId(setErrorCode(timeoutError, ERROR_CODES.jobTimeout), jobId);
+		}
+		await sleep(asyncJobOptions.pollInterval * 1000);
+	}
+}
+
+/**
+ * Checks the `X-UpscaleIMG-Signature` header of a webhook event, which is `sha256=` followed
+ * by the hex HMAC-SHA256 of the raw request body, keyed with the webhook's secret.
+ */
+export function verifyWebhookSignature(
+	rawBody: Buffer | string,
+	signature: string | undefined,
+	secret: string,
+): boolean {
+	if (!signature || !secret) {
+		return false;
+	}
+
+	const expected = Buffer.from(
+		`sha256=${createHmac('sha256', secret).update(rawBody).digest('hex')}`,
+	);
+	const received = Buffer.from(signature.trim());
+	return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+export interface CacheOptions {
+	ttl: number;
+	maxEntries: number;
+	downloadOnHit: boolean;
+}
+
+interface CacheEntry {
+	createdAt: number;
+	response: IDataObject;
+}
+
+/**
+ * Reads the `cache` fixed collection of the node's Options. Without it, every image is upscaled.
+ */
+export function getCacheOptions(options: IDataObject): CacheOptions | undefined {
+	const settings = (options.cache as IDataObject | undefined)?.settings as IDataObject | undefined;
+	if (!settings) {
+		return undefined;
+	}
+
+	return {
+		ttl: Math.max(0, (settings.ttl as number) ?? 24) * 60 * 60 * 1000,
+		maxEntries: Math.max(1, Math.floor((settings.maxEntries as number) ?? 1000)),
+		downloadOnHit: (settings.downloadOnHit as boolean) ?? true,
+	};
+}
+
+/**
+ * Hashes the input image's SHA-256 together with the request parameters, so the same image
+ * upscaled with other settings gets its own entry.
+ */
+export function getCacheKey(imageHash: string, fields: FormField[]): string {
+	const parameters = fields.map(([name, value]) => [name, String(value)]);
+	return createHash('sha256').update(imageHash).update(JSON.stringify(parameters)).digest('hex');
+}
+
+/**
+ * Returns the cached API response for `key`, dropping expired entries on the way.
+ * `store` is the object the entries live in, usually the node's workflow static data.
+ */
+export function getCachedResponse(
+	store: IDataObject,
+	key: string,
+	cacheOptions: CacheOptions,
+	now = Date.now(),
+): IDataObject | undefined {
+	const entries = (store.upscaleCache ?? {}) as Record<string, CacheEntry>;
+	for (const [entryKey, entry] of Object.entries(entries)) {
+		if (now - entry.createdAt >= cacheOptions.ttl) {
+			delete entries[entryKey];
+		}
+	}
+	return entries[key]?.response;
+}
+
+/**
+ * Stores an API response under `key` and evicts the oldest entries beyond `maxEntries`.
+ */
+export function setCachedResponse(
+	store: IDataObject,
+	key: string,
+	response: IDataObject,
+	cacheOptions: CacheOptions,
+	now = Date.now(),
+): void {
+	const entries = (store.upscaleCache ?? {}) as Record<string, CacheEntry>;
+	entries[key] = { createdAt: now, response };
+
+	const keys = Object.keys(entries);
+	if (keys.length > cacheOptions.maxEntries) {
+		keys.sort((a, b) => entries[a].createdAt - entries[b].createdAt);
+		for (const oldKey of keys.slice(0, keys.length - cacheOptions.maxEntries)) {
+			delete entries[oldKey];
+		}
+	}
+	store.upscaleCache = entries as unknown as IDataObject;
+}
+
+export function deleteCachedResponse(store: IDataObject, key: string): void {
+	delete ((store.upscaleCache ?? {}) as Record<string, CacheEntry>)[key];
+}
+
+/**
+ * Per-execution limits from the node's Options. A limit of 0 is off.
+ */
+export interface LimitOptions {
+	maxImages: number;
+	maxMegapixels: number;
+	/** In bytes */
+	maxFileSize: number;
+	onLimit: 'skip' | 'fail';
+}
+
+/**
+ * What one execution has spent so far. Shared by all items, including concurrent ones.
+ */
+export interface ExecutionUsage {
+	images: number;
+	megapixels: number;
+}
+
+export type LimitName = 'maxImages' | 'maxMegapixels' | 'maxFileSize';
+
+const LIMIT_DESCRIPTIONS: Record<LimitName, string> = {
+	maxImages: 'Max Images per Execution',
+	maxMegapixels: 'Max Total Output Megapixels',
+	maxFileSize: 'Max Input File Size',
+};
+
+/**
+ * Reads the `limits` fixed collection of the node's Options. Without it, nothing is limited.
+ */
+export function getLimitOptions(options: IDataObject): LimitOptions | undefined {
+	const settings = (options.limits as IDataObject | undefined)?.settings as
+		| IDataObject
+		| undefined;
+	if (!settings) {
+		return undefined;
+	}
+
+	return {
+		maxImages: Math.max(0, Math.floor((settings.maxImages as number) ?? 100)),
+		maxMegapixels: Math.max(0, (settings.maxMegapixels as number) ?? 0),
+		maxFileSize: Math.max(0, (settings.maxFileSize as number) ?? 0) * 1024 * 1024,
+		onLimit: settings.onLimit === 'skip' ? 'skip' : 'fail',
+	};
+}
+
+/**
+ * Returns the limit that an input image of `size` bytes exceeds, if any.
+ */
+export function checkFileSizeLimit(limits: LimitOptions, size: number): LimitName | undefined {
+	return limits.maxFileSize && size > limits.maxFileSize ? 'maxFileSize' : undefined;
+}
+
+function toMegapixels(dimensions: ImageDimensions | undefined): number {
+	return dimensions ? (dimensions.width * dimensions.height) / 1_000_000 : 0;
+}
+
+/**
+ * Returns the limit that keeps another image from being upscaled, or reserves the image and
+ * its planned output size right away, so concurrent items cannot both take what is left.
+ * When the output size is not known in advance, only the megapixels spent so far count.
+ */
+export function reserveUpscale(
+	limits: LimitOptions,
+	usage: ExecutionUsage,
+	planned?: ImageDimensions,
+): LimitName | undefined {
+	if (limits.maxImages && usage.images >= limits.maxImages) {
+		return 'maxImages';
+	}
+	const megapixels = usage.megapixels + toMegapixels(planned);
+	if (
+		limits.maxMegapixels &&
+		(planned ? megapixels > limits.maxMegapixels : megapixels >= limits.maxMegapixels)
+	) {
+		return 'maxMegapixels';
+	}
+	usage.images++;
+	usage.megapixels = megapixels;
+	return undefined;
+}
+
+/**
+ * Gives back what `reserveUpscale` reserved when the upscale request failed.
+ */
+export function releaseUpscale(usage: ExecutionUsage, planned?: ImageDimensions): void {
+	usage.images = Math.max(0, usage.images - 1);
+	usage.megapixels = Math.max(0, usage.megapixels - toMegapixels(planned));
+}
+
+/**
+ * Replaces the planned output size of a reserved upscale with the size of its result.
+ */
+export function recordUpscale(
+	usage: ExecutionUsage,
+	result: ImageDimensions,
+	planned?: ImageDimensions,
+): void {
+	usage.megapixels = Math.max(0, usage.megapixels + toMegapixels(result) - toMegapixels(planned));
+}
+
+export function createLimitError(
+	node: INode,
+	limit: LimitName,
+	limits: LimitOptions,
+	itemIndex: number,
+): NodeOperationError {
+	const value =
+		limit === 'maxFileSize'
+			? `${Math.round((limits.maxFileSize / 1024 / 1024) * 100) / 100} MB`
+			: String(limits[limit]);
+	return setErrorCode(
+		new NodeOperationError(node, `${LIMIT_DESCRIPTIONS[limit]} (${value}) reached`, {
+			description:
+				'The execution was stopped before any further images were sent to UpscaleIMG. Raise the limit in Options > Limits, or set When Limit Is Reached to skip the remaining items.',
+			itemIndex,
+		}),
+		ERROR_CODES.limitReached,
+	);
+}
@@ -0,0 +1,343 @@
+export type ImageFormat = 'png' | 'jpeg' | 'webp' | 'gif' | 'bmp' | 'tiff' | 'avif' | 'heic';
+
+export interface ImageFormatInfo {
+	format: ImageFormat;
+	mimeType: string;
+	extension: string;
+}
+
+const FORMATS: Record<ImageFormat, ImageFormatInfo> = {
+	png: { format: 'png', mimeType: 'image/png', extension: 'png' },
+	jpeg: { format: 'jpeg', mimeType: 'image/jpeg', extension: 'jpg' },
+	webp: { format: 'webp', mimeType: 'image/webp', extension: 'webp' },
+	gif: { format: 'gif', mimeType: 'image/gif', extension: 'gif' },
+	bmp: { format: 'bmp', mimeType: 'image/bmp', extension: 'bmp' },
+	tiff: { format: 'tiff', mimeType: 'image/tiff', extension: 'tiff' },
+	avif: { format: 'avif', mimeType: 'image/avif', extension: 'avif' },
+	heic: { format: 'heic', mimeType: 'image/heic', extension: 'heic' },
+};
+
+/**
+ * Formats the UpscaleIMG API accepts as input.
+ */
+export const SUPPORTED_INPUT_FORMATS: ImageFormat[] = ['png', 'jpeg', 'webp', 'gif', 'bmp'];
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const PNG_IEND = Buffer.from([0x49, 0x45, 0x4e, 0x44, 0xae, 0x42, 0x60, 0x82]);
+const GIF_TRAILER = Buffer.from([0x00, 0x3b]);
+
+function ascii(buffer: Buffer, start: number, end: number): string {
+	return buffer.toString('latin1', start, end);
+}
+
+/**
+ * Detects the image format from the file's magic bytes. Returns undefined for anything
+ * that is not a recognised image, including PDFs and other documents.
+ */
+export function detectImageFormat(buffer: Buffer): ImageFormatInfo | undefined {
+	if (buffer.length >= 8 && buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+		return FORMATS.png;
+	}
+	if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+		return FORMATS.jpeg;
+	}
+	if (buffer.length >= 12 && ascii(buffer, 0, 4) === 'RIFF' && ascii(buffer, 8, 12) === 'WEBP') {
+		return FORMATS.webp;
+	}
+	if (buffer.length >= 6 && ['GIF87a', 'GIF89a'].includes(ascii(buffer, 0, 6))) {
+		return FORMATS.gif;
+	}
+	if (buffer.length >= 2 && ascii(buffer, 0, 2) === 'BM') {
+		return FORMATS.bmp;
+	}
+	if (buffer.length >= 4 && ['II*\0', 'MM\0*'].includes(ascii(buffer, 0, 4))) {
+		return FORMATS.tiff;
+	}
+	if (buffer.length >= 12 && ascii(buffer, 4, 8) === 'ftyp') {
+		const brand = ascii(buffer, 8, 12);
+		if (brand === 'avif' || brand === 'avis') {
+			return FORMATS.avif;
+		}
+		if (['heic', 'heix', 'hevc', 'hevx', 'mif1', 'msf1'].includes(brand)) {
+			return FORMATS.heic;
+		}
+	}
+	return undefined;
+}
+
+export function isSupportedInputFormat(format: ImageFormat): boolean {
+	return SUPPORTED_INPUT_FORMATS.includes(format);
+}
+
+/**
+ * The start and the end of a file and its size. Enough for the format checks, so large
+ * files can be checked while they are streamed instead of being held in memory.
+ */
+export interface ImageSample {
+	head: Buffer;
+	tail: Buffer;
+	size: number;
+	/** Offset of the last JPEG end-of-image marker anywhere in the file, when it was streamed */
+	jpegEndOffset?: number;
+}
+
+/**
+ * Number of bytes at the end of a file that `isImageComplete` looks at.
+ */
+export const IMAGE_TAIL_SIZE = 1024;
+
+export const JPEG_EOI = Buffer.from([0xff, 0xd9]);
+
+/**
+ * Walks the JPEG segments from the start of the file to the start-of-scan marker. Skipping
+ * whole segments keeps the markers of an embedded EXIF thumbnail from being taken for the
+ * image's own. Returns undefined when the scan does not start within `head`.
+ */
+function findJpegScanStart(head: Buffer): number | undefined {
+	let offset = 2;
+	while (offset + 4 <= head.length) {
+		if (head[offset] !== 0xff) {
+			return undefined;
+		}
+		const marker = head[offset + 1];
+		if (marker === 0xda) {
+			return offset;
+		}
+		if (marker === 0xff) {
+			// Fill byte before a marker
+			offset++;
+		} else if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+			// Markers without a length
+			offset += 2;
+		} else {
+			offset += 2 + head.readUInt16BE(offset + 2);
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Finds the offset of the last occurrence of `marker`, from the whole file when `head`
+ * holds all of it and from the tail otherwise.
+ */
+function findLastMarker({ head, tail, size }: ImageSample, marker: Buffer): number | undefined {
+	const [content, start] = head.length >= size ? [head, 0] : [tail, size - tail.length];
+	const index = content.lastIndexOf(marker);
+	return index === -1 ? undefined : start + index;
+}
+
+/**
+ * Checks the structural markers that a truncated file would be missing: the PNG IEND chunk,
+ * the JPEG end-of-image marker, the RIFF size of WebP, the GIF trailer and the BMP file size.
+ */
+export function isImageComplete(image: Buffer | ImageSample, format: ImageFormat): boolean {
+	const sample: ImageSample = Buffer.isBuffer(image)
+		? { head: image, tail: image, size: image.length }
+		: image;
+	const { head, size } = sample;
+
+	switch (format) {
+		case 'png':
+			// Signature, IHDR chunk and IEND chunk at the very least. Bytes after IEND, such as
+			// padding or appended metadata, are allowed.
+			return (
+				size >= 8 + 25 + 12 &&
+				ascii(head, 12, 16) === 'IHDR' &&
+				findLastMarker(sample, PNG_IEND) !== undefined
+			);
+		case 'jpeg': {
+			// Entropy-coded data cannot contain an end-of-image marker, so any one after the start
+			// of the scan ends the image. Whatever follows it, such as the video of a motion photo
+			// or the extra images of an MPF file, is allowed.
+			const end = sample.jpegEndOffset ?? findLastMarker(sample, JPEG_EOI);
+			return end !== undefined && end > (findJpegScanStart(head) ?? 1);
+		}
+		case 'webp':
+			return head.length >= 12 && head.readUInt32LE(4) + 8 <= size;
+		case 'gif':
+			// The trailer follows the terminator of the last data block, and may itself be followed
+			// by padding
+			return size > 13 && (findLastMarker(sample, GIF_TRAILER) ?? 0) >= 13;
+		case 'bmp':
+			return head.length >= 26 && head.readUInt32LE(2) <= size;
+		default:
+			return true;
+	}
+}
+
+export function getFormatInfo(format: ImageFormat): ImageFormatInfo {
+	return FORMATS[format];
+}
+
+/**
+ * Replaces or adds the file extension so it matches the detected format. Extensions that
+ * already describe the format, such as `.jpeg` for JPEG, are kept.
+ */
+export function withFormatExtension(fileName: string, info: ImageFormatInfo): string {
+	const match = /\.([^.]+)$/.exec(fileName);
+	const extension = match?.[1].toLowerCase();
+	const aliases: Partial<Record<ImageFormat, string[]>> = {
+		jpeg: ['jpg', 'jpeg', 'jpe', 'jfif'],
+		tiff: ['tif', 'tiff'],
+	};
+	if (extension && (aliases[info.format] ?? [info.extension]).includes(extension)) {
+		return fileName;
+	}
+	const baseName = match ? fileName.slice(0, match.index) : fileName;
+	return `${baseName}.${info.extension}`;
+}
+
+export interface ImageDimensions {
+	width: number;
+	height: number;
+}
+
+const EXIF_ORIENTATION_TAG = 0x0112;
+
+/**
+ * Reads the orientation tag from the EXIF data of an APP1 segment, which starts at `start`
+ * with the `Exif` identifier. Values 5 to 8 rotate the image by 90 degrees when displayed.
+ */
+function getExifOrientation(buffer: Buffer, start: number, end: number): number | undefined {
+	const tiff = start + 6;
+	if (end - tiff < 8 || ascii(buffer, start, start + 4) !== 'Exif') {
+		return undefined;
+	}
+	const byteOrder = ascii(buffer, tiff, tiff + 2);
+	if (byteOrder !== 'II' && byteOrder !== 'MM') {
+		return undefined;
+	}
+	const le = byteOrder === 'II';
+	const readUInt16 = (offset: number) =>
+		le ? buffer.readUInt16LE(offset) : buffer.readUInt16BE(offset);
+	const ifd = tiff + (le ? buffer.readUInt32LE(tiff + 4) : buffer.readUInt32BE(tiff + 4));
+	if (ifd + 2 > end) {
+		return undefined;
+	}
+	for (let entry = ifd + 2, n = readUInt16(ifd); n > 0 && entry + 12 <= end; n--, entry += 12) {
+		if (readUInt16(entry) === EXIF_ORIENTATION_TAG) {
+			return readUInt16(entry + 8);
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Reads the size of a JPEG as it is displayed, so the width and height are swapped when the
+ * EXIF orientation rotates it by 90 degrees.
+ */
+function getJpegDimensions(buffer: Buffer): ImageDimensions | undefined {
+	let offset = 2;
+	let orientation: number | undefined;
+	while (offset + 9 < buffer.length) {
+		if (buffer[offset] !== 0xff) {
+			return undefined;
+		}
+		const marker = buffer[offset + 1];
+		if (marker === 0xff) {
+			// Fill byte before a marker
+			offset++;
+			continue;
+		}
+		// SOF0 to SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+		if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+			const height = buffer.readUInt16BE(offset + 5);
+			const width = buffer.readUInt16BE(offset + 7);
+			return orientation !== undefined && orientation >= 5 && orientation <= 8
+				? { width: height, height: width }
+				: { width, height };
+		}
+		if (marker === 0xd8 || (marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+			// Markers without a length field
+			offset += 2;
+			continue;
+		}
+		const length = buffer.readUInt16BE(offset + 2);
+		if (marker === 0xe1 && orientation === undefined) {
+			orientation = getExifOrientation(
+				buffer,
+				offset + 4,
+				Math.min(offset + 2 + length, buffer.length),
+			);
+		}
+		offset += 2 + length;
+	}
+	return undefined;
+}
+
+function getWebpDimensions(buffer: Buffer): ImageDimensions | undefined {
+	const chunk = ascii(buffer, 12, 16);
+	if (chunk === 'VP8X' && buffer.length >= 30) {
+		return {
+			width: buffer.readUIntLE(24, 3) + 1,
+			height: buffer.readUIntLE(27, 3) + 1,
+		};
+	}
+	if (chunk === 'VP8 ' && buffer.length >= 30) {
+		return {
+			width: buffer.readUInt16LE(26) & 0x3fff,
+			height: buffer.readUInt16LE(28) & 0x3fff,
+		};
+	}
+	if (chunk === 'VP8L' && buffer.length >= 25 && buffer[20] === 0x2f) {
+		const bits = buffer.readUInt32LE(21);
+		return {
+			width: (bits & 0x3fff) + 1,
+			height: ((bits >> 14) & 0x3fff) + 1,
+		};
+	}
+	return undefined;
+}
+
+/**
+ * Reads the pixel dimensions from the image header without decoding the image.
+ * Returns undefined when the header cannot be parsed.
+ */
+export function getImageDimensions(
+	buffer: Buffer,
+	format: ImageFormat,
+): ImageDimensions | undefined {
+	switch (format) {
+		case 'png':
+			return buffer.length >= 24
+				? { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) }
+				: undefined;
+		case 'jpeg':
+			return getJpegDimensions(buffer);
+		case 'webp':
+			return getWebpDimensions(buffer);
+		case 'gif':
+			return buffer.length >= 10
+				? { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) }
+				: undefined;
+		case 'bmp':
+			return buffer.length >= 26
+				? { width: Math.abs(buffer.readInt32LE(18)), height: Math.abs(buffer.readInt32LE(22)) }
+				: undefined;
+		default:
+			return undefined;
+	}
+}
+
+function scaleDimensions(source: ImageDimensions, factor: number): ImageDimensions {
+	return {
+		width: Math.max(1, Math.round(source.width * factor)),
+		height: Math.max(1, Math.round(source.height * factor)),
+	};
+}
+
+export function fitToWidth(source: ImageDimensions, width: number): ImageDimensions {
+	return { ...scaleDimensions(source, width / source.width), width };
+}
+
+export function fitToHeight(source: ImageDimensions, height: number): ImageDimensions {
+	return { ...scaleDimensions(source, height / source.height), height };
+}
+
+export function fitToLongestEdge(source: ImageDimensions, length: number): ImageDimensions {
+	return source.width >= source.height ? fitToWidth(source, length) : fitToHeight(source, length);
+}
+
+export function fitToMegapixels(source: ImageDimensions, megapixels: number): ImageDimensions {
+	return scaleDimensions(source, Math.sqrt((megapixels * 1_000_000) / (source.width * source.height)));
+}
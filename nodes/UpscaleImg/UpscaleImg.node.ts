@@ -1,14 +1,73 @@
 import type {
+	IBinaryData,
+	IBinaryKeyData,
 	IDataObject,
 	IExecuteFunctions,
 	INodeExecutionData,
 	INodeType,
 	INodeTypeDescription,
-	IHttpRequestOptions,
+	JsonObject,
 } from 'n8n-workflow';
+import type { Readable } from 'stream';
 
-import { NodeOperationError } from 'n8n-workflow';
-import FormData from 'form-data';
+import { NodeApiError, NodeOperationError, updateDisplayOptions } from 'n8n-workflow';
+
+import type {
+	ContentSample,
+	ExecutionUsage,
+	FormField,
+	LimitName,
+	LimitOptions,
+	RetryOptions,
+	UpscaleResponse,
+} from './GenericFunctions';
+import {
+	checkFileSizeLimit,
+	createFormData,
+	createLimitError,
+	DEFAULT_OUTPUT_FILE_NAME,
+	deleteCachedResponse,
+	downloadImageUrl,
+	downloadResult,
+	ERROR_CODES,
+	getAsyncJobOptions,
+	getCachedResponse,
+	getCacheKey,
+	getCacheOptions,
+	getErrorCode,
+	getFileNameFromUrl,
+	getLimitOptions,
+	getOutputFileName,
+	getRetryOptions,
+	isHttpUrl,
+	recordUpscale,
+	releaseUpscale,
+	reserveUpscale,
+	runWithConcurrency,
+	sampleContent,
+	setCachedResponse,
+	setErrorCode,
+	toUpscaleImgApiError,
+	upscaleImgApiRequest,
+	validateUpscaleResponse,
+	waitForJob,
+	wildcardToRegExp,
+	withRetry,
+} from './GenericFunctions';
+import type { ImageDimensions, ImageFormat, ImageFormatInfo } from './ImageUtils';
+import {
+	detectImageFormat,
+	fitToHeight,
+	fitToLongestEdge,
+	fitToMegapixels,
+	fitToWidth,
+	getFormatInfo,
+	getImageDimensions,
+	isImageComplete,
+	isSupportedInputFormat,
+	SUPPORTED_INPUT_FORMATS,
+	withFormatExtension,
+} from './ImageUtils';
 
 export class UpscaleImg implements INodeType {
 	description: INodeTypeDescription = {
@@ -16,8 +75,10 @@ export class UpscaleImg implements INodeType {
 		name: 'upscaleImg',
 		icon: 'file:upscaleimg.png',
 		group: ['transform'],
-		version: 1,
-		subtitle: '={{$parameter["resizeMode"] === "scale" ? "Scale " + $parameter["scale"] + "x" : "Custom " + $parameter["customWidth"] + "x" + $parameter["customHeight"]}}',
+		version: [1, 2],
+		defaultVersion: 2,
+		subtitle:
+			'={{ $parameter["resource"] === "account" ? "Get Usage" : { scale: "Scale " + $parameter["scale"] + "x", customDimensions: "Custom " + $parameter["customWidth"] + "x" + $parameter["customHeight"], fitWidth: "Fit width " + $parameter["customWidth"] + "px", fitHeight: "Fit height " + $parameter["customHeight"] + "px", longestEdge: "Longest edge " + $parameter["longestEdge"] + "px", targetMegapixels: $parameter["targetMegapixels"] + " MP" }[$parameter["resizeMode"]] }}',
 		description: 'Upscale images using the UpscaleIMG API',
 		defaults: {
 			name: 'UpscaleIMG',
@@ -33,268 +94,1862 @@ export class UpscaleImg implements INodeType {
 		],
 		properties: [
 			{
-				displayName: 'Input Binary Field',
-				name: 'binaryPropertyName',
-				type: 'string',
-				default: 'data',
-				required: true,
-				description: 'Name of the binary property containing the image to upscale',
-			},
-			{
-				displayName: 'Resize Mode',
-				name: 'resizeMode',
+				displayName: 'Resource',
+				name: 'resource',
 				type: 'options',
+				noDataExpression: true,
 				options: [
 					{
-						name: 'Scale',
-						value: 'scale',
-						description: 'Upscale by a fixed factor (2x or 4x)',
+						name: 'Account',
+						value: 'account',
 					},
 					{
-						name: 'Custom Dimensions',
-						value: 'customDimensions',
-						description: 'Specify exact output width and height',
+						name: 'Image',
+						value: 'image',
 					},
 				],
-				default: 'scale',
-				description: 'How to determine the output image size',
+				default: 'image',
+				displayOptions: {
+					show: {
+						'@version': [2],
+					},
+				},
 			},
 			{
-				displayName: 'Scale Factor',
-				name: 'scale',
+				displayName: 'Operation',
+				name: 'operation',
 				type: 'options',
+				noDataExpression: true,
 				options: [
-					{ name: '2x', value: 2 },
-					{ name: '4x', value: 4 },
+					{
+						name: 'Upscale',
+						value: 'upscale',
+						description: 'Upscale an image',
+						action: 'Upscale an image',
+					},
 				],
-				default: 2,
-				description: 'Factor to upscale the image by',
+				default: 'upscale',
 				displayOptions: {
 					show: {
-						resizeMode: ['scale'],
+						resource: ['image'],
 					},
 				},
 			},
 			{
-				displayName: 'Width',
-				name: 'customWidth',
-				type: 'number',
-				default: 1920,
-				required: true,
-				description: 'Target output width in pixels',
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Get Usage',
+						value: 'getUsage',
+						description: 'Get the credit balance and usage of the account',
+						action: 'Get usage and credits',
+					},
+				],
+				default: 'getUsage',
 				displayOptions: {
 					show: {
-						resizeMode: ['customDimensions'],
+						resource: ['account'],
 					},
 				},
-				typeOptions: {
-					minValue: 1,
-				},
 			},
-			{
-				displayName: 'Height',
-				name: 'customHeight',
-				type: 'number',
-				default: 1080,
-				required: true,
-				description: 'Target output height in pixels',
-				displayOptions: {
-					show: {
-						resizeMode: ['customDimensions'],
+			// Version 1 has no resource parameter, so the image properties are hidden for
+			// accounts instead of shown for images
+			...updateDisplayOptions({ hide: { resource: ['account'] } }, [
+				{
+					displayName: 'Input Source',
+					name: 'inputSource',
+					type: 'options',
+					options: [
+						{
+							name: 'Binary',
+							value: 'binary',
+							description: 'Read the image from a binary property of the input item',
+						},
+						{
+							name: 'URL',
+							value: 'url',
+							description: 'Read the image from a public URL',
+						},
+					],
+					default: 'binary',
+					description: 'Where to read the image to upscale from',
+				},
+				{
+					displayName: 'Input Binary Field',
+					name: 'binaryPropertyName',
+					type: 'string',
+					default: 'data',
+					required: true,
+					description:
+						'Name of the binary property containing the image to upscale. Use a comma-separated list or a wildcard such as "attachment_*" to upscale several properties, or "*" for all image binaries in a supported format.',
+					displayOptions: {
+						show: {
+							inputSource: ['binary'],
+						},
 					},
 				},
-				typeOptions: {
-					minValue: 1,
+				{
+					displayName: 'Image URL',
+					name: 'imageUrl',
+					type: 'string',
+					default: '',
+					required: true,
+					placeholder: 'https://example.com/photo.jpg',
+					description: 'Public URL of the image to upscale',
+					displayOptions: {
+						show: {
+							inputSource: ['url'],
+						},
+					},
 				},
-			},
-			{
-				displayName: 'Object Fit',
-				name: 'objectFit',
-				type: 'options',
-				options: [
-					{
-						name: 'Cover',
-						value: 'cover',
-						description: 'Crop to fill dimensions',
+				{
+					displayName: 'URL Handling',
+					name: 'urlHandling',
+					type: 'options',
+					options: [
+						{
+							name: 'Download in n8n',
+							value: 'download',
+							description: 'Fetch the image in n8n and upload it to the API',
+						},
+						{
+							name: 'Send URL to API',
+							value: 'passUrl',
+							description: 'Let the API fetch the image from the URL',
+						},
+					],
+					default: 'download',
+					description: 'Whether n8n or the API fetches the image',
+					displayOptions: {
+						show: {
+							inputSource: ['url'],
+						},
 					},
-					{
-						name: 'Contain',
-						value: 'contain',
-						description: 'Fit within dimensions, may letterbox',
+				},
+				{
+					displayName: 'Resize Mode',
+					name: 'resizeMode',
+					type: 'options',
+					options: [
+						{
+							name: 'Scale',
+							value: 'scale',
+							description: 'Upscale by a fixed factor (2x or 4x)',
+						},
+						{
+							name: 'Custom Dimensions',
+							value: 'customDimensions',
+							description: 'Specify exact output width and height',
+						},
+						{
+							name: 'Fit Width',
+							value: 'fitWidth',
+							description: 'Set the output width and keep the aspect ratio',
+						},
+						{
+							name: 'Fit Height',
+							value: 'fitHeight',
+							description: 'Set the output height and keep the aspect ratio',
+						},
+						{
+							name: 'Longest Edge',
+							value: 'longestEdge',
+							description: 'Set the length of the longer side and keep the aspect ratio',
+						},
+						{
+							name: 'Target Megapixels',
+							value: 'targetMegapixels',
+							description: 'Set the output size in megapixels and keep the aspect ratio',
+						},
+					],
+					default: 'scale',
+					description: 'How to determine the output image size',
+				},
+				{
+					displayName: 'Scale Factor',
+					name: 'scale',
+					type: 'options',
+					options: [
+						{ name: '2x', value: 2 },
+						{ name: '4x', value: 4 },
+					],
+					default: 2,
+					description: 'Factor to upscale the image by',
+					displayOptions: {
+						show: {
+							resizeMode: ['scale'],
+						},
 					},
-					{
-						name: 'Fill',
-						value: 'fill',
-						description: 'Stretch to fill dimensions exactly',
+				},
+				{
+					displayName: 'Width',
+					name: 'customWidth',
+					type: 'number',
+					default: 1920,
+					required: true,
+					description: 'Target output width in pixels',
+					displayOptions: {
+						show: {
+							resizeMode: ['customDimensions', 'fitWidth'],
+						},
 					},
-				],
-				default: 'cover',
-				description: 'How to fit the image into the target dimensions',
-				displayOptions: {
-					show: {
-						resizeMode: ['customDimensions'],
+					typeOptions: {
+						minValue: 1,
 					},
 				},
-			},
-			{
-				displayName: 'Options',
-				name: 'options',
-				type: 'collection',
-				placeholder: 'Add Option',
-				default: {},
-				options: [
-					{
-						displayName: 'Output Format',
-						name: 'outputFormat',
-						type: 'options',
-						options: [
-							{ name: 'PNG', value: 'png' },
-							{ name: 'JPEG', value: 'jpg' },
-							{ name: 'WebP', value: 'webp' },
-						],
-						default: 'png',
-						description: 'Format of the output image',
+				{
+					displayName: 'Height',
+					name: 'customHeight',
+					type: 'number',
+					default: 1080,
+					required: true,
+					description: 'Target output height in pixels',
+					displayOptions: {
+						show: {
+							resizeMode: ['customDimensions', 'fitHeight'],
+						},
 					},
-					{
-						displayName: 'Remove Metadata',
-						name: 'removeMetadata',
-						type: 'boolean',
-						default: false,
-						description: 'Whether to strip EXIF and other metadata from the output image',
+					typeOptions: {
+						minValue: 1,
 					},
-					{
-						displayName: 'Output Binary Field',
-						name: 'outputBinaryPropertyName',
-						type: 'string',
-						default: 'data',
-						description: 'Name of the binary property to store the upscaled image',
+				},
+				{
+					displayName: 'Longest Edge',
+					name: 'longestEdge',
+					type: 'number',
+					default: 2048,
+					required: true,
+					description: 'Target length of the longer side in pixels',
+					displayOptions: {
+						show: {
+							resizeMode: ['longestEdge'],
+						},
 					},
-				],
-			},
+					typeOptions: {
+						minValue: 1,
+					},
+				},
+				{
+					displayName: 'Megapixels',
+					name: 'targetMegapixels',
+					type: 'number',
+					default: 8,
+					required: true,
+					description: 'Target output size in megapixels (width × height / 1,000,000)',
+					displayOptions: {
+						show: {
+							resizeMode: ['targetMegapixels'],
+						},
+					},
+					typeOptions: {
+						minValue: 0.01,
+						numberPrecision: 2,
+					},
+				},
+				{
+					displayName: 'Object Fit',
+					name: 'objectFit',
+					type: 'options',
+					options: [
+						{
+							name: 'Cover',
+							value: 'cover',
+							description: 'Crop to fill dimensions',
+						},
+						{
+							name: 'Contain',
+							value: 'contain',
+							description: 'Fit within dimensions, may letterbox',
+						},
+						{
+							name: 'Fill',
+							value: 'fill',
+							description: 'Stretch to fill dimensions exactly',
+						},
+					],
+					default: 'cover',
+					description: 'How to fit the image into the target dimensions',
+					displayOptions: {
+						show: {
+							resizeMode: ['customDimensions'],
+						},
+					},
+				},
+				{
+					displayName: 'Options',
+					name: 'options',
+					type: 'collection',
+					placeholder: 'Add Option',
+					default: {},
+					options: [
+						{
+							displayName: 'Output File Name',
+							name: 'outputFileName',
+							type: 'string',
+							default: '',
+							placeholder: '{name}_upscaled.{ext}',
+							description:
+								'File name of the upscaled image. Placeholders: {name}, {originalExt}, {ext}, {format}, {width}, {height}, {scale}, {index}, {field}. Expressions can be used as well. Unsafe characters are replaced.',
+						},
+						{
+							displayName: 'Output Format',
+							name: 'outputFormat',
+							type: 'options',
+							options: [
+								{ name: 'PNG', value: 'png' },
+								{ name: 'JPEG', value: 'jpg' },
+								{ name: 'WebP', value: 'webp' },
+								{
+									name: 'Same as Input',
+									value: 'sameAsInput',
+									description:
+										'Keep JPEG, PNG and WebP inputs in their format. GIF and BMP inputs become PNG.',
+								},
+							],
+							default: 'png',
+							description: 'Format of the output image',
+						},
+						{
+							displayName: 'Additional Output Formats',
+							name: 'additionalFormats',
+							type: 'multiOptions',
+							options: [
+								{ name: 'PNG', value: 'png' },
+								{ name: 'JPEG', value: 'jpg' },
+								{ name: 'WebP', value: 'webp' },
+							],
+							default: [],
+							description:
+								'Further formats to convert the upscaled image to, e.g. a JPEG fallback for WebP. The image is upscaled once and each format gets its own binary property, named after the output property with the format appended, e.g. data_jpg.',
+						},
+						{
+							displayName: 'Quality',
+							name: 'quality',
+							type: 'number',
+							default: 90,
+							typeOptions: {
+								minValue: 1,
+								maxValue: 100,
+							},
+							description:
+								'Compression quality of JPEG and WebP output, including Additional Output Formats, from 1 (smallest file) to 100 (best quality). Not applied to PNG output.',
+						},
+						{
+							displayName: 'Output Mode',
+							name: 'outputMode',
+							type: 'options',
+							options: [
+								{
+									name: 'Binary',
+									value: 'binary',
+									description: 'Download the upscaled image into a binary property',
+								},
+								{
+									name: 'URL Only',
+									value: 'url',
+									description: 'Return the signed result URL in the JSON output without downloading',
+								},
+								{
+									name: 'Both',
+									value: 'both',
+									description: 'Download the image and also return the signed result URL',
+								},
+							],
+							default: 'binary',
+							description: 'How to return the upscaled image',
+						},
+						{
+							displayName: 'Remove Metadata',
+							name: 'removeMetadata',
+							type: 'boolean',
+							default: false,
+							description: 'Whether to strip EXIF and other metadata from the output image',
+						},
+						{
+							displayName: 'Async Job',
+							name: 'asyncJob',
+							type: 'fixedCollection',
+							placeholder: 'Add Async Job Settings',
+							default: {},
+							description:
+								'Whether to submit the upscale as a job and poll for the result instead of waiting on one long request. Use it for large images and 4x upscales that run into proxy or n8n timeouts.',
+							options: [
+								{
+									displayName: 'Settings',
+									name: 'settings',
+									values: [
+										{
+											displayName: 'Poll Interval (Seconds)',
+											name: 'pollInterval',
+											type: 'number',
+											default: 5,
+											typeOptions: {
+												minValue: 1,
+											},
+											description: 'How long to wait between two status checks',
+										},
+										{
+											displayName: 'Timeout (Seconds)',
+											name: 'timeout',
+											type: 'number',
+											default: 600,
+											typeOptions: {
+												minValue: 1,
+											},
+											description:
+												'How long to wait for the job to finish before the item fails with a JOB_TIMEOUT error that contains the job ID',
+										},
+										{
+											displayName: 'Wait for Result',
+											name: 'waitForResult',
+											type: 'boolean',
+											default: true,
+											description:
+												'Whether to poll the job and output the upscaled image. When off, the node outputs the job ID right after submitting it, and an UpscaleIMG Trigger receives the result.',
+										},
+										{
+											displayName: 'Resume Job ID',
+											name: 'resumeJobId',
+											type: 'string',
+											default: '',
+											placeholder: 'e.g. {{ $json.jobId }}',
+											description:
+												'ID of a job that was submitted before, e.g. by an execution that timed out. The node polls this job instead of submitting a new one. Only works with a single input image per item.',
+										},
+									],
+								},
+							],
+						},
+						{
+							displayName: 'Retry on Failure',
+							name: 'retry',
+							type: 'fixedCollection',
+							placeholder: 'Add Retry Settings',
+							default: {},
+							description:
+								'Whether to retry the upscale request and the result download on rate limits and transient errors',
+							options: [
+								{
+									displayName: 'Settings',
+									name: 'settings',
+									values: [
+										{
+											displayName: 'Max Attempts',
+											name: 'maxAttempts',
+											type: 'number',
+											default: 3,
+											typeOptions: {
+												minValue: 1,
+												maxValue: 10,
+											},
+											description: 'Maximum number of attempts per request, including the first one',
+										},
+										{
+											displayName: 'Base Delay (Ms)',
+											name: 'baseDelay',
+											type: 'number',
+											default: 1000,
+											typeOptions: {
+												minValue: 0,
+											},
+											description:
+												'Delay before the first retry. Each further retry doubles it, with random jitter.',
+										},
+										{
+											displayName: 'Max Delay (Ms)',
+											name: 'maxDelay',
+											type: 'number',
+											default: 30000,
+											typeOptions: {
+												minValue: 0,
+											},
+											description:
+												'Upper bound for the delay between two attempts, including one asked for by Retry-After',
+										},
+										{
+											displayName: 'Respect Retry-After',
+											name: 'respectRetryAfter',
+											type: 'boolean',
+											default: true,
+											description:
+												'Whether to wait as long as the Retry-After response header asks instead of using the backoff delay',
+										},
+										{
+											displayName: 'Retry On Status Codes',
+											name: 'retryOnStatusCodes',
+											type: 'multiOptions',
+											options: [
+												{ name: '408 Request Timeout', value: 408 },
+												{ name: '429 Too Many Requests', value: 429 },
+												{ name: '500 Internal Server Error', value: 500 },
+												{ name: '502 Bad Gateway', value: 502 },
+												{ name: '503 Service Unavailable', value: 503 },
+												{ name: '504 Gateway Timeout', value: 504 },
+											],
+											default: [429, 500, 502, 503, 504],
+											description:
+												'HTTP status codes that trigger a retry. Network errors such as timeouts and connection resets are always retried.',
+										},
+									],
+								},
+							],
+						},
+						{
+							displayName: 'Skip If At Least',
+							name: 'skipIfAtLeast',
+							type: 'fixedCollection',
+							placeholder: 'Add Size Threshold',
+							default: {},
+							description:
+								'Pass images that are already large enough through unchanged instead of upscaling them. Needs the image content, so it does not apply when the URL is sent to the API.',
+							options: [
+								{
+									displayName: 'Threshold',
+									name: 'threshold',
+									values: [
+										{
+											displayName: 'Criterion',
+											name: 'criterion',
+											type: 'options',
+											options: [
+												{
+													name: 'Width and Height',
+													value: 'dimensions',
+													description: 'Skip when both width and height are at least the given values',
+												},
+												{
+													name: 'Megapixels',
+													value: 'megapixels',
+													description: 'Skip when the pixel count is at least the given value',
+												},
+											],
+											default: 'dimensions',
+										},
+										{
+											displayName: 'Min Width',
+											name: 'minWidth',
+											type: 'number',
+											default: 2000,
+											typeOptions: {
+												minValue: 0,
+											},
+											description: 'Minimum width in pixels',
+											displayOptions: {
+												show: {
+													criterion: ['dimensions'],
+												},
+											},
+										},
+										{
+											displayName: 'Min Height',
+											name: 'minHeight',
+											type: 'number',
+											default: 2000,
+											typeOptions: {
+												minValue: 0,
+											},
+											description: 'Minimum height in pixels',
+											displayOptions: {
+												show: {
+													criterion: ['dimensions'],
+												},
+											},
+										},
+										{
+											displayName: 'Min Megapixels',
+											name: 'minMegapixels',
+											type: 'number',
+											default: 4,
+											typeOptions: {
+												minValue: 0,
+												numberPrecision: 2,
+											},
+											description: 'Minimum size in megapixels (width × height / 1,000,000)',
+											displayOptions: {
+												show: {
+													criterion: ['megapixels'],
+												},
+											},
+										},
+									],
+								},
+							],
+						},
+						{
+							displayName: 'Cache Results',
+							name: 'cache',
+							type: 'fixedCollection',
+							placeholder: 'Add Cache Settings',
+							default: {},
+							description:
+								'Whether to reuse earlier results for identical images upscaled with the same settings instead of paying for them again. Results are stored in the workflow static data, which n8n only saves for active workflows.',
+							options: [
+								{
+									displayName: 'Settings',
+									name: 'settings',
+									values: [
+										{
+											displayName: 'TTL (Hours)',
+											name: 'ttl',
+											type: 'number',
+											default: 24,
+											typeOptions: {
+												minValue: 0,
+											},
+											description:
+												'How long a result is reused. Keep it below the lifetime of the signed result URLs when downloading on a hit.',
+										},
+										{
+											displayName: 'Max Entries',
+											name: 'maxEntries',
+											type: 'number',
+											default: 1000,
+											typeOptions: {
+												minValue: 1,
+											},
+											description: 'Maximum number of cached results. The oldest are dropped first.',
+										},
+										{
+											displayName: 'Download on Hit',
+											name: 'downloadOnHit',
+											type: 'boolean',
+											default: true,
+											description:
+												'Whether to download the cached result again. When off, a hit only returns the metadata and the result URL.',
+										},
+									],
+								},
+							],
+						},
+						{
+							displayName: 'Limits',
+							name: 'limits',
+							type: 'fixedCollection',
+							placeholder: 'Add Limits',
+							default: {},
+							description:
+								'Whether to cap what one execution may spend, e.g. when far more items arrive than expected. Cached results and skipped images do not count.',
+							options: [
+								{
+									displayName: 'Settings',
+									name: 'settings',
+									values: [
+										{
+											displayName: 'Max Images per Execution',
+											name: 'maxImages',
+											type: 'number',
+											default: 100,
+											typeOptions: {
+												minValue: 0,
+											},
+											description: 'Maximum number of images to upscale. 0 means no limit.',
+										},
+										{
+											displayName: 'Max Total Output Megapixels',
+											name: 'maxMegapixels',
+											type: 'number',
+											default: 0,
+											typeOptions: {
+												minValue: 0,
+											},
+											description:
+												'An image is not upscaled when its planned output would take the results above this many megapixels. 0 means no limit.',
+										},
+										{
+											displayName: 'Max Input File Size (MB)',
+											name: 'maxFileSize',
+											type: 'number',
+											default: 0,
+											typeOptions: {
+												minValue: 0,
+												numberPrecision: 2,
+											},
+											description:
+												'Input images larger than this are not upscaled. 0 means no limit. Not checked when the URL is sent to the API.',
+										},
+										{
+											displayName: 'When Limit Is Reached',
+											name: 'onLimit',
+											type: 'options',
+											options: [
+												{
+													name: 'Stop Execution',
+													value: 'fail',
+													description:
+														'Fail the execution before any further API calls, even with Continue On Fail',
+												},
+												{
+													name: 'Skip Remaining Items',
+													value: 'skip',
+													description:
+														'Pass the remaining images through without upscaling and mark them with limitReached',
+												},
+											],
+											default: 'fail',
+										},
+									],
+								},
+							],
+						},
+						{
+							displayName: 'Dry Run',
+							name: 'dryRun',
+							type: 'boolean',
+							default: false,
+							description:
+								'Whether to only return what the node would do, without calling the API or spending credits: the planned output size, format, file name, an estimated file size and whether the image would be skipped. The input binary is passed through.',
+						},
+						{
+							displayName: 'Verify Result Dimensions',
+							name: 'verifyDimensions',
+							type: 'boolean',
+							default: false,
+							description:
+								'Whether to check the width and height of the downloaded image against the API response. Its size and format are always checked.',
+						},
+						{
+							displayName: 'Concurrency',
+							name: 'concurrency',
+							type: 'number',
+							default: 1,
+							typeOptions: {
+								minValue: 1,
+								maxValue: 20,
+							},
+							description: 'Maximum number of items to upscale in parallel. Output order is preserved.',
+						},
+						{
+							displayName: 'Keep Input JSON',
+							name: 'keepInputJson',
+							type: 'options',
+							options: [
+								{
+									name: 'No',
+									value: 'none',
+									description: 'Output only the upscale results',
+								},
+								{
+									name: 'Merge',
+									value: 'merge',
+									description: 'Merge the upscale results into the input JSON',
+								},
+								{
+									name: 'Nest Under Key',
+									value: 'nest',
+									description: 'Put the input JSON under a separate key next to the upscale results',
+								},
+							],
+							default: 'none',
+							description: 'Whether to keep the fields of the input item in the output JSON',
+						},
+						{
+							displayName: 'Input JSON Key',
+							name: 'inputJsonKey',
+							type: 'string',
+							default: 'input',
+							description: 'Key to nest the input JSON under',
+							displayOptions: {
+								show: {
+									keepInputJson: ['nest'],
+								},
+							},
+						},
+						{
+							displayName: 'Keep Input Binaries',
+							name: 'keepInputBinary',
+							type: 'options',
+							options: [
+								{
+									name: 'No',
+									value: 'none',
+									description: 'Output only the upscaled images',
+								},
+								{
+									name: 'All Except Source Images',
+									value: 'others',
+									description: 'Keep the other binary properties of the input item',
+								},
+								{
+									name: 'All Including Source Images',
+									value: 'all',
+									description:
+										'Also keep the original images. An original that shares its name with an output is stored as "<name>_original".',
+								},
+							],
+							default: 'none',
+							description: 'Whether to keep the binary properties of the input item in the output',
+						},
+						{
+							displayName: 'Output Binary Field',
+							name: 'outputBinaryPropertyName',
+							type: 'string',
+							default: 'data',
+							description:
+								'Name of the binary property to store the upscaled image. Used when a single input binary field is set.',
+						},
+						{
+							displayName: 'Output Binary Suffix',
+							name: 'outputBinarySuffix',
+							type: 'string',
+							default: '_upscaled',
+							description:
+								'Appended to each input field name to name its output property, e.g. "attachment_0_upscaled". Used when several input binary fields are set.',
+						},
+					],
+				},
+			]),
 		],
 	};
 
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const items = this.getInputData();
-		const returnData: INodeExecutionData[] = [];
+		// Version 1 has no resource parameter and only upscales
+		const resource = this.getNodeParameter('resource', 0, 'image') as string;
+		const options =
+			resource === 'image' ? (this.getNodeParameter('options', 0, {}) as IDataObject) : {};
+		const concurrency = Math.max(1, Math.floor((options.concurrency as number) || 1));
+		const processItem = resource === 'account' ? getUsage : upscaleItem;
+		const usage: ExecutionUsage = { images: 0, megapixels: 0 };
 
-		for (let i = 0; i < items.length; i++) {
+		const returnData = await runWithConcurrency(items.length, concurrency, async (i) => {
 			try {
-				const binaryPropertyName = this.getNodeParameter('binaryPropertyName', i) as string;
-				const resizeMode = this.getNodeParameter('resizeMode', i) as string;
-				const options = this.getNodeParameter('options', i) as IDataObject;
-
-				const binaryData = this.helpers.assertBinaryData(i, binaryPropertyName);
-				const binaryBuffer = await this.helpers.getBinaryDataBuffer(i, binaryPropertyName);
-
-				const fileName = binaryData.fileName || 'image.png';
-				const mimeType = binaryData.mimeType || 'image/png';
-
-				const credentials = await this.getCredentials('upscaleImgApi');
-				const apiKey = credentials.apiKey as string;
-
-				const form = new FormData();
-				form.append('image', binaryBuffer, { filename: fileName, contentType: mimeType });
-
-				if (resizeMode === 'scale') {
-					const scale = this.getNodeParameter('scale', i) as number;
-					form.append('scale', String(scale));
-				} else {
-					const customWidth = this.getNodeParameter('customWidth', i) as number;
-					const customHeight = this.getNodeParameter('customHeight', i) as number;
-					const objectFit = this.getNodeParameter('objectFit', i) as string;
-					form.append('customWidth', String(customWidth));
-					form.append('customHeight', String(customHeight));
-					form.append('objectFit', objectFit);
-				}
-
-				if (options.outputFormat) {
-					form.append('outputFormat', options.outputFormat as string);
+				return await processItem.call(this, i, usage);
+			} catch (error) {
+				// A reached limit stops the whole execution, not just the item
+				if (this.continueOnFail() && getErrorCode(error) !== ERROR_CODES.limitReached) {
+					const json: IDataObject = {
+						error: (error as Error).message,
+						code: getErrorCode(error),
+					};
+					if (error instanceof NodeApiError && error.httpCode) {
+						json.statusCode = Number(error.httpCode);
+					}
+					const jobId = (error as { context?: IDataObject }).context?.jobId;
+					if (jobId) {
+						json.jobId = jobId;
+					}
+					return {
+						json,
+						pairedItem: { item: i },
+					};
 				}
-				if (options.removeMetadata !== undefined) {
-					form.append('removeMetadata', (options.removeMetadata as boolean) ? '1' : '0');
+				if (error instanceof NodeApiError) {
+					throw error;
 				}
+				throw new NodeOperationError(this.getNode(), error as Error, {
+					itemIndex: i,
+				});
+			}
+		});
 
-				const requestOptions: IHttpRequestOptions = {
-					method: 'POST',
-					url: 'https://upscaleimg.app/api/v1/upscale',
-					headers: {
-						Authorization: `Bearer ${apiKey}`,
-					},
-					body: form,
-				};
+		return [returnData];
+	}
+}
 
-				const response = (await this.helpers.httpRequest(requestOptions)) as {
-					original: {
-						size: number;
-						width: number;
-						height: number;
-						mimeType: string;
-						fileExt: string;
-					};
-					result: {
-						size: number;
-						width: number;
-						height: number;
-						mimeType: string;
-						fileExt: string;
-						url: string;
-					};
-				};
+const SUPPORTED_FORMATS_DESCRIPTION = `Supported formats: ${SUPPORTED_INPUT_FORMATS.map((format) =>
+	getFormatInfo(format).extension.toUpperCase(),
+).join(', ')}`;
 
-				// Download the upscaled image from the signed URL
-				const downloadOptions: IHttpRequestOptions = {
-					method: 'GET',
-					url: response.result.url,
-					encoding: 'arraybuffer',
-				};
+const OUTPUT_FORMATS: Partial<Record<ImageFormat, string>> = {
+	png: 'png',
+	jpeg: 'jpg',
+	webp: 'webp',
+};
+
+const LOSSY_OUTPUT_FORMATS = ['jpg', 'webp'];
+
+const OUTPUT_FORMAT_MIME_TYPES: Record<string, string> = {
+	png: 'image/png',
+	jpg: 'image/jpeg',
+	webp: 'image/webp',
+};
+
+/**
+ * Typical sizes of upscaled photos, for dry-run estimates of outputs in another format than
+ * the input.
+ */
+const ESTIMATED_BYTES_PER_PIXEL: Record<string, number> = {
+	png: 1.5,
+	jpg: 0.25,
+	webp: 0.15,
+};
+
+/**
+ * Resolves the Output Format option to the API's `outputFormat`. Same as Input maps the
+ * detected input format, with PNG for formats the API cannot write, and leaves the format
+ * to the API when only a URL is sent.
+ */
+function getOutputFormat(
+	outputFormat: string | undefined,
+	image?: CheckedImage,
+): string | undefined {
+	if (outputFormat !== 'sameAsInput') {
+		return outputFormat || undefined;
+	}
+	if (!image) {
+		return undefined;
+	}
+	return OUTPUT_FORMATS[image.format.format] ?? 'png';
+}
+
+interface CheckedImage {
+	fileName: string;
+	mimeType: string;
+	format: ImageFormatInfo;
+	dimensions?: ImageDimensions;
+	size: number;
+	/** Hex SHA-256 of the content */
+	hash: string;
+	/** Returns the content to upload. Stored binaries are streamed, with a new stream per call. */
+	getContent: () => Promise<Buffer | Readable>;
+}
+
+/**
+ * One image to upscale. `image` is unset when the URL is passed to the API as is.
+ */
+interface ImageSource {
+	fileName: string;
+	image?: CheckedImage;
+	imageUrl?: string;
+	binaryPropertyName?: string;
+	/** Set in dry runs for an image URL that a real run would download */
+	downloadUrl?: boolean;
+}
+
+/**
+ * An output image as far as it is known, e.g. before the API was called.
+ */
+interface PlannedImage {
+	width?: number;
+	height?: number;
+	mimeType: string;
+	fileExt: string;
+}
+
+interface UpscaledImage {
+	json: IDataObject;
+	binary?: IBinaryData;
+	/** Conversions of the upscaled image, by output format */
+	formats?: Record<string, IBinaryData>;
+}
+
+/**
+ * Detects the input format from its magic bytes and rejects unsupported or truncated files
+ * before anything is uploaded. Returns a file name and mime type that match the content.
+ */
+function checkInputImage(
+	this: IExecuteFunctions,
+	i: number,
+	sample: ContentSample,
+	fileName: string | undefined,
+	getContent: CheckedImage['getContent'],
+): CheckedImage {
+	const format = detectImageFormat(sample.head);
+
+	if (!format) {
+		throw setErrorCode(
+			new NodeOperationError(this.getNode(), 'The input file is not a recognized image', {
+				itemIndex: i,
+				description: SUPPORTED_FORMATS_DESCRIPTION,
+			}),
+			ERROR_CODES.unsupportedImage,
+		);
+	}
+	if (!isSupportedInputFormat(format.format)) {
+		throw setErrorCode(
+			new NodeOperationError(
+				this.getNode(),
+				`${format.extension.toUpperCase()} images are not supported by UpscaleIMG`,
+				{
+					itemIndex: i,
+					description: SUPPORTED_FORMATS_DESCRIPTION,
+				},
+			),
+			ERROR_CODES.unsupportedImage,
+		);
+	}
+	if (!isImageComplete(sample, format.format)) {
+		throw setErrorCode(
+			new NodeOperationError(this.getNode(), 'The input image is truncated or corrupt', {
+				itemIndex: i,
+				description: `The file starts like a ${format.extension.toUpperCase()} image but its structure is incomplete`,
+			}),
+			ERROR_CODES.corruptImage,
+		);
+	}
+
+	return {
+		fileName: withFormatExtension(fileName || 'image', format),
+		mimeType: format.mimeType,
+		format,
+		dimensions: getImageDimensions(sample.head, format.format),
+		size: sample.size,
+		hash: sample.hash,
+		getContent,
+	};
+}
+
+/**
+ * Reads a binary property of the item for the input checks. Binaries in the binary data
+ * store are streamed, so only a sample of them is held in memory, and streamed again for
+ * the upload.
+ */
+async function readBinaryImage(
+	this: IExecuteFunctions,
+	i: number,
+	binaryPropertyName: string,
+): Promise<{ sample: ContentSample; getContent: CheckedImage['getContent'] }> {
+	const binaryDataId = this.getInputData()[i].binary?.[binaryPropertyName]?.id;
+
+	if (binaryDataId) {
+		const getContent = async () => await this.helpers.getBinaryStream(binaryDataId);
+		return { sample: await sampleContent(await getContent()), getContent };
+	}
+
+	const buffer = await this.helpers.getBinaryDataBuffer(i, binaryPropertyName);
+	return { sample: await sampleContent(buffer), getContent: async () => buffer };
+}
+
+/**
+ * Returns true when the image already meets the configured Skip If At Least threshold.
+ * Images whose dimensions cannot be read are never skipped.
+ */
+function meetsSkipThreshold(image: CheckedImage, options: IDataObject): boolean {
+	const threshold = (options.skipIfAtLeast as IDataObject | undefined)?.threshold as
+		| IDataObject
+		| undefined;
+	if (!threshold || !image.dimensions) {
+		return false;
+	}
+
+	const { width, height } = image.dimensions;
+	if (threshold.criterion === 'megapixels') {
+		const minMegapixels = (threshold.minMegapixels as number) ?? 0;
+		return (width * height) / 1_000_000 >= minMegapixels;
+	}
+	return (
+		width >= ((threshold.minWidth as number) ?? 0) && height >= ((threshold.minHeight as number) ?? 0)
+	);
+}
+
+/**
+ * Builds the output for an image that is large enough already. The JSON has the same
+ * shape as an upscaled image, with `result` equal to `original`.
+ */
+async function createSkippedImage(
+	this: IExecuteFunctions,
+	i: number,
+	image: CheckedImage,
+	binaryPropertyName: string | undefined,
+): Promise<UpscaledImage> {
+	const original: IDataObject = {
+		size: image.size,
+		width: image.dimensions?.width,
+		height: image.dimensions?.height,
+		mimeType: image.mimeType,
+		fileExt: image.format.extension,
+	};
+
+	const inputBinary = binaryPropertyName
+		? this.getInputData()[i].binary?.[binaryPropertyName]
+		: undefined;
+
+	return {
+		json: {
+			skipped: true,
+			original,
+			result: { ...original },
+		},
+		binary:
+			inputBinary ??
+			(await this.helpers.prepareBinaryData(
+				await image.getContent(),
+				image.fileName,
+				image.mimeType,
+			)),
+	};
+}
+
+/**
+ * Fails the execution when a limit is reached, or skips the image and passes the input
+ * binary through with `limitReached` set, as configured in When Limit Is Reached.
+ */
+function handleLimit(
+	this: IExecuteFunctions,
+	i: number,
+	limit: LimitName,
+	limits: LimitOptions,
+	source: ImageSource,
+): UpscaledImage {
+	if (limits.onLimit === 'fail') {
+		throw createLimitError(this.getNode(), limit, limits, i);
+	}
+	return {
+		json: { skipped: true, limitReached: limit },
+		binary: source.binaryPropertyName
+			? this.getInputData()[i].binary?.[source.binaryPropertyName]
+			: undefined,
+	};
+}
+
+/**
+ * Computes the output size for the aspect-ratio-preserving resize modes from the input
+ * image's dimensions.
+ */
+function getAspectFitDimensions(
+	this: IExecuteFunctions,
+	i: number,
+	resizeMode: string,
+	image: CheckedImage | undefined,
+): ImageDimensions {
+	const source = image?.dimensions;
+	if (!source?.width || !source.height) {
+		throw setErrorCode(
+			new NodeOperationError(this.getNode(), 'Could not read the dimensions of the input image', {
+				itemIndex: i,
+				description:
+					'This resize mode needs the input size. It is not available when the URL is sent to the API.',
+			}),
+			ERROR_CODES.invalidInput,
+		);
+	}
+
+	switch (resizeMode) {
+		case 'fitWidth':
+			return fitToWidth(source, this.getNodeParameter('customWidth', i) as number);
+		case 'fitHeight':
+			return fitToHeight(source, this.getNodeParameter('customHeight', i) as number);
+		case 'longestEdge':
+			return fitToLongestEdge(source, this.getNodeParameter('longestEdge', i) as number);
+		case 'targetMegapixels':
+			return fitToMegapixels(source, this.getNodeParameter('targetMegapixels', i) as number);
+		default:
+			throw new NodeOperationError(this.getNode(), `Unknown resize mode: "${resizeMode}"`, {
+				itemIndex: i,
+			});
+	}
+}
+
+/**
+ * Resolves the images of an item. `multiple` is true when the binary field setting is a
+ * list or a wildcard; results are then keyed by field name.
+ */
+async function getImageSources(
+	this: IExecuteFunctions,
+	i: number,
+	dryRun = false,
+): Promise<{ sources: ImageSource[]; multiple: boolean }> {
+	const inputSource = this.getNodeParameter('inputSource', i, 'binary') as string;
+
+	if (inputSource === 'url') {
+		const imageUrl = (this.getNodeParameter('imageUrl', i) as string).trim();
+		const urlHandling = this.getNodeParameter('urlHandling', i, 'download') as string;
+
+		if (!isHttpUrl(imageUrl)) {
+			throw setErrorCode(
+				new NodeOperationError(this.getNode(), `Invalid image URL: "${imageUrl}"`, {
+					itemIndex: i,
+					description: 'The URL must start with http:// or https://',
+				}),
+				ERROR_CODES.invalidInput,
+			);
+		}
+
+		// A dry run does not download the image, so it plans as if the URL was sent to the API
+		if (urlHandling === 'passUrl' || dryRun) {
+			const fileName = getFileNameFromUrl(imageUrl) || 'image.png';
+			return {
+				sources: [{ fileName, imageUrl, downloadUrl: urlHandling !== 'passUrl' || undefined }],
+				multiple: false,
+			};
+		}
+
+		const imageBuffer = await downloadImageUrl.call(this, imageUrl, i);
+		const image = checkInputImage.call(
+			this,
+			i,
+			await sampleContent(imageBuffer),
+			getFileNameFromUrl(imageUrl),
+			async () => imageBuffer,
+		);
+		return { sources: [{ fileName: image.fileName, image }], multiple: false };
+	}
+
+	const binaryPropertyName = this.getNodeParameter('binaryPropertyName', i) as string;
+	const patterns = binaryPropertyName
+		.split(',')
+		.map((pattern) => pattern.trim())
+		.filter((pattern) => pattern !== '');
+	const multiple = patterns.length > 1 || patterns.some((pattern) => pattern.includes('*'));
+
+	const availableProperties = Object.keys(this.getInputData()[i].binary ?? {});
+	const sources: ImageSource[] = [];
+
+	for (const pattern of patterns) {
+		if (!pattern.includes('*')) {
+			if (sources.some((source) => source.binaryPropertyName === pattern)) {
+				continue;
+			}
+			const binaryData = this.helpers.assertBinaryData(i, pattern);
+			const { sample, getContent } = await readBinaryImage.call(this, i, pattern);
+			const image = checkInputImage.call(this, i, sample, binaryData.fileName, getContent);
+			sources.push({ fileName: image.fileName, image, binaryPropertyName: pattern });
+			continue;
+		}
+
+		// Wildcards only pick up images the API accepts, so other attachments, including images
+		// in formats such as HEIC or TIFF, are left alone
+		const matcher = wildcardToRegExp(pattern);
+		for (const property of availableProperties) {
+			if (
+				!matcher.test(property) ||
+				sources.some((source) => source.binaryPropertyName === property)
+			) {
+				continue;
+			}
+			const { sample, getContent } = await readBinaryImage.call(this, i, property);
+			const format = detectImageFormat(sample.head);
+			if (!format || !isSupportedInputFormat(format.format)) {
+				continue;
+			}
+			const binaryData = this.getInputData()[i].binary![property];
+			const image = checkInputImage.call(this, i, sample, binaryData.fileName, getContent);
+			sources.push({ fileName: image.fileName, image, binaryPropertyName: property });
+		}
+	}
+
+	if (sources.length === 0) {
+		throw setErrorCode(
+			new NodeOperationError(
+				this.getNode(),
+				`No image binary properties match "${binaryPropertyName}"`,
+				{
+					itemIndex: i,
+					description: availableProperties.length
+						? `Available binary properties: ${availableProperties.join(', ')}`
+						: 'The item has no binary data',
+				},
+			),
+			ERROR_CODES.invalidInput,
+		);
+	}
+
+	return { sources, multiple };
+}
 
-				const imageArrayBuffer = await this.helpers.httpRequest(downloadOptions);
-				const imageBuffer = Buffer.from(imageArrayBuffer as ArrayBuffer);
+/**
+ * Resolves the resize and format parameters into the form fields of an upscale request,
+ * without the image itself. Dry runs plan from the same fields.
+ */
+function getUpscaleFields(
+	this: IExecuteFunctions,
+	i: number,
+	source: ImageSource,
+	options: IDataObject,
+): FormField[] {
+	const { image } = source;
+	const resizeMode = this.getNodeParameter('resizeMode', i) as string;
+	const formFields: FormField[] = [];
+
+	if (!image) {
+		formFields.push(['imageUrl', source.imageUrl!]);
+	}
 
-				const outputBinaryPropertyName =
-					(options.outputBinaryPropertyName as string) || 'data';
-				const baseName = fileName.replace(/\.[^.]+$/, '');
-				const outputFileName = `${baseName}_upscaled.${response.result.fileExt}`;
+	if (resizeMode === 'scale') {
+		const scale = this.getNodeParameter('scale', i) as number;
+		formFields.push(['scale', String(scale)]);
+	} else if (resizeMode !== 'customDimensions') {
+		// A dry run does not download the image, so the size it would be fitted to is unknown
+		if (image || !source.downloadUrl) {
+			const { width, height } = getAspectFitDimensions.call(this, i, resizeMode, image);
+			formFields.push(['customWidth', String(width)]);
+			formFields.push(['customHeight', String(height)]);
+			// The computed size has the input's displayed aspect ratio, so nothing is cropped
+			formFields.push(['objectFit', 'fill']);
+		}
+	} else {
+		const customWidth = this.getNodeParameter('customWidth', i) as number;
+		const customHeight = this.getNodeParameter('customHeight', i) as number;
+		const objectFit = this.getNodeParameter('objectFit', i) as string;
+		formFields.push(['customWidth', String(customWidth)]);
+		formFields.push(['customHeight', String(customHeight)]);
+		formFields.push(['objectFit', objectFit]);
+	}
 
-				const binaryOutput = await this.helpers.prepareBinaryData(
-					imageBuffer,
-					outputFileName,
-					response.result.mimeType,
+	const outputFormat = getOutputFormat(options.outputFormat as string | undefined, image);
+	if (outputFormat) {
+		formFields.push(['outputFormat', outputFormat]);
+	}
+	if (options.quality !== undefined && LOSSY_OUTPUT_FORMATS.includes(outputFormat ?? '')) {
+		formFields.push(['quality', String(options.quality)]);
+	}
+	if (options.removeMetadata !== undefined) {
+		formFields.push(['removeMetadata', (options.removeMetadata as boolean) ? '1' : '0']);
+	}
+
+	return formFields;
+}
+
+/**
+ * Upscales a single image and, depending on the output mode, downloads the result.
+ */
+async function upscaleImage(
+	this: IExecuteFunctions,
+	i: number,
+	source: ImageSource,
+	options: IDataObject,
+	usage: ExecutionUsage,
+): Promise<UpscaledImage> {
+	const { image } = source;
+
+	if (image && meetsSkipThreshold(image, options)) {
+		return await createSkippedImage.call(this, i, image, source.binaryPropertyName);
+	}
+
+	const limits = getLimitOptions(options);
+	const fileSizeLimit = image && limits && checkFileSizeLimit(limits, image.size);
+	if (fileSizeLimit) {
+		return handleLimit.call(this, i, fileSizeLimit, limits!, source);
+	}
+
+	const formFields = getUpscaleFields.call(this, i, source, options);
+	// Counted towards Max Total Output Megapixels before the request, then corrected by the result
+	const planned = getPlannedDimensions(image, formFields);
+
+	const retryOptions = getRetryOptions(options);
+	const asyncJob = getAsyncJobOptions(options);
+	const attempts: IDataObject = {};
+
+	// Only images whose content is known can be cached, and only finished jobs have a result
+	const cacheOptions =
+		image && !asyncJob?.resumeJobId && asyncJob?.waitForResult !== false
+			? getCacheOptions(options)
+			: undefined;
+	const cache = cacheOptions && {
+		options: cacheOptions,
+		store: this.getWorkflowStaticData('node'),
+		key: getCacheKey(image!.hash, formFields),
+	};
+	const cachedResponse = cache && getCachedResponse(cache.store, cache.key, cache.options);
+
+	let jobId = asyncJob?.resumeJobId;
+	let upscaleResult: IDataObject;
+	if (cachedResponse) {
+		upscaleResult = cachedResponse;
+	} else if (jobId) {
+		upscaleResult = await waitForJob.call(this, i, jobId, asyncJob!, retryOptions);
+	} else {
+		const limit = limits && reserveUpscale(limits, usage, planned);
+		if (limit) {
+			return handleLimit.call(this, i, limit, limits!, source);
+		}
+
+		let upscale: { result: IDataObject; attempts: number };
+		try {
+			// A multipart body is a stream that can only be sent once, so every attempt builds a new one
+			upscale = await withRetry(async () => {
+				const uploadFields: FormField[] = image
+					? [
+							[
+								'image',
+								await image.getContent(),
+								{ filename: image.fileName, contentType: image.mimeType, knownLength: image.size },
+							],
+							...formFields,
+						]
+					: formFields;
+				return await upscaleImgApiRequest.call(
+					this,
+					'POST',
+					asyncJob ? '/jobs' : '/upscale',
+					createFormData(uploadFields),
 				);
+			}, retryOptions);
+		} catch (error) {
+			// Nothing was upscaled, so the image no longer counts towards Max Images
+			if (limits) {
+				releaseUpscale(usage, planned);
+			}
+			throw toUpscaleImgApiError(this.getNode(), error, i);
+		}
+		attempts.upscale = upscale.attempts;
+		upscaleResult = upscale.result;
 
-				returnData.push({
-					json: {
-						original: response.original,
-						result: {
-							size: response.result.size,
-							width: response.result.width,
-							height: response.result.height,
-							mimeType: response.result.mimeType,
-							fileExt: response.result.fileExt,
-						},
-					},
-					binary: {
-						[outputBinaryPropertyName]: binaryOutput,
-					},
-					pairedItem: { item: i },
-				});
-			} catch (error) {
-				if (this.continueOnFail()) {
-					returnData.push({
-						json: {
-							error: (error as Error).message,
-						},
-						pairedItem: { item: i },
-					});
-					continue;
+		if (asyncJob) {
+			if (!upscaleResult.jobId) {
+				throw setErrorCode(
+					new NodeApiError(this.getNode(), upscaleResult as JsonObject, {
+						message: 'UpscaleIMG did not return a job ID',
+						itemIndex: i,
+					}),
+					ERROR_CODES.apiError,
+				);
+			}
+			jobId = String(upscaleResult.jobId);
+			if (!asyncJob.waitForResult) {
+				const submitted: UpscaledImage = {
+					json: { jobId, status: upscaleResult.status ?? 'queued' },
+				};
+				if (retryOptions) {
+					submitted.json.attempts = attempts;
 				}
-				throw new NodeOperationError(this.getNode(), error as Error, {
+				return submitted;
+			}
+			upscaleResult = await waitForJob.call(this, i, jobId, asyncJob, retryOptions);
+		}
+	}
+	const response = validateUpscaleResponse(this.getNode(), upscaleResult, i);
+	if (!cachedResponse && !asyncJob?.resumeJobId) {
+		recordUpscale(usage, response.result, planned);
+	}
+	// The entry is kept by reference, so conversions are added to it later without renewing it
+	const cacheEntry = cachedResponse ?? { original: response.original, result: response.result };
+	if (cache && !cachedResponse) {
+		setCachedResponse(cache.store, cache.key, cacheEntry, cache.options);
+	}
+
+	const outputMode = (options.outputMode as string) || 'binary';
+	const download = outputMode !== 'url' && !(cachedResponse && !cache.options.downloadOnHit);
+
+	const { url, ...resultJson } = response.result;
+	if (outputMode !== 'binary' || !download) {
+		resultJson.url = url;
+	}
+
+	const upscaled: UpscaledImage = {
+		json: {
+			original: response.original,
+			result: resultJson,
+		},
+	};
+	if (jobId) {
+		upscaled.json.jobId = jobId;
+	}
+	if (cachedResponse) {
+		upscaled.json.cached = true;
+	}
+	if (retryOptions) {
+		upscaled.json.attempts = attempts;
+	}
+
+	if (download) {
+		const outputFileName = getResultFileName.call(
+			this,
+			i,
+			source,
+			options,
+			response.original.width,
+			response.result,
+		);
+
+		// Download the upscaled image from the signed URL and check it against the response
+		let downloaded: { result: IBinaryData; attempts: number };
+		try {
+			downloaded = await withRetry(
+				async () =>
+					await downloadResult.call(
+						this,
+						url,
+						outputFileName,
+						response.result,
+						(options.verifyDimensions as boolean) ?? false,
+						i,
+					),
+				retryOptions,
+			);
+		} catch (error) {
+			if (!cachedResponse || getErrorCode(error) === ERROR_CODES.downloadBlocked) {
+				throw error;
+			}
+			// The cached URL has most likely expired, so upscale the image again
+			deleteCachedResponse(cache.store, cache.key);
+			return await upscaleImage.call(this, i, source, options, usage);
+		}
+		attempts.download = downloaded.attempts;
+		upscaled.binary = downloaded.result;
+	}
+
+	// Further formats are converted from the upscaled image, so the image is upscaled only once
+	const additionalFormats = ((options.additionalFormats as string[] | undefined) ?? []).filter(
+		(format) => OUTPUT_FORMAT_MIME_TYPES[format] !== response.result.mimeType,
+	);
+	if (additionalFormats.length) {
+		upscaled.json.formats = {};
+		upscaled.formats = {};
+	}
+	// Conversions are cached with the upscale, so a hit converts only formats added since
+	const cachedFormats = (cacheEntry.formats ?? {}) as Record<string, UpscaleResponse['result']>;
+	for (const format of additionalFormats) {
+		let converted = cachedFormats[format];
+		try {
+			if (!converted) {
+				({ result: converted } = await convertResult.call(
+					this,
+					i,
+					url,
+					format,
+					options,
+					retryOptions,
+				));
+			}
+			const { url: formatUrl, ...formatJson } = converted;
+			if (outputMode !== 'binary' || !download) {
+				formatJson.url = formatUrl;
+			}
+			(upscaled.json.formats as IDataObject)[format] = formatJson;
+
+			if (download) {
+				const { result: binary } = await withRetry(
+					async () =>
+						await downloadResult.call(
+							this,
+							formatUrl,
+							getResultFileName.call(
+								this,
+								i,
+								source,
+								options,
+								response.original.width,
+								converted,
+							),
+							converted,
+							(options.verifyDimensions as boolean) ?? false,
+							i,
+						),
+					retryOptions,
+				);
+				upscaled.formats![format] = binary;
+			}
+		} catch (error) {
+			if (!cachedResponse || getErrorCode(error) === ERROR_CODES.downloadBlocked) {
+				throw error;
+			}
+			// The cached URLs have most likely expired, so upscale the image again
+			deleteCachedResponse(cache.store, cache.key);
+			return await upscaleImage.call(this, i, source, options, usage);
+		}
+		cachedFormats[format] = converted;
+	}
+	if (cache && additionalFormats.length) {
+		cacheEntry.formats = cachedFormats;
+	}
+
+	return upscaled;
+}
+
+/**
+ * Works out what upscaling an image would produce without calling the API: the output size,
+ * format, file name, an estimated file size and whether it would be skipped. Limits are
+ * applied as in a real run, with the planned size counted towards the megapixels.
+ */
+function planImage(
+	this: IExecuteFunctions,
+	i: number,
+	source: ImageSource,
+	options: IDataObject,
+	usage: ExecutionUsage,
+): IDataObject {
+	const { image } = source;
+	const resizeMode = this.getNodeParameter('resizeMode', i) as string;
+	const plan: IDataObject = { dryRun: true, skipped: false };
+	if (image) {
+		plan.original = {
+			size: image.size,
+			width: image.dimensions?.width,
+			height: image.dimensions?.height,
+			mimeType: image.mimeType,
+			fileExt: image.format.extension,
+		};
+	}
+
+	if (image && meetsSkipThreshold(image, options)) {
+		return { ...plan, skipped: true, skipReason: 'skipIfAtLeast' };
+	}
+
+	const formFields = getUpscaleFields.call(this, i, source, options);
+	const fields = new Map(formFields.map(([name, value]) => [name, String(value)]));
+	const dimensions = getPlannedDimensions(image, formFields);
+	if (!dimensions && source.downloadUrl && resizeMode !== 'scale') {
+		plan.dimensionsUnknownReason =
+			'The image URL is not downloaded in a dry run, so the size it is fitted to is unknown';
+	}
+
+	// Without an output format the API returns PNG, except that Same as Input of a URL is unknown
+	const format =
+		fields.get('outputFormat') ?? (options.outputFormat === 'sameAsInput' ? undefined : 'png');
+	const planFormat = (outputFormat: string): IDataObject => {
+		const planned: PlannedImage = {
+			...dimensions,
+			mimeType: OUTPUT_FORMAT_MIME_TYPES[outputFormat],
+			fileExt: outputFormat,
+		};
+		const pixels = dimensions ? dimensions.width * dimensions.height : undefined;
+		const bytesPerPixel =
+			image?.dimensions && image.mimeType === planned.mimeType
+				? image.size / (image.dimensions.width * image.dimensions.height)
+				: ESTIMATED_BYTES_PER_PIXEL[outputFormat];
+		return {
+			...planned,
+			fileName: getResultFileName.call(
+				this,
+				i,
+				source,
+				options,
+				image?.dimensions?.width,
+				planned,
+			),
+			estimatedSize: pixels !== undefined ? Math.round(pixels * bytesPerPixel) : undefined,
+		};
+	};
+	plan.result = format ? planFormat(format) : { ...dimensions };
+
+	const additionalFormats = ((options.additionalFormats as string[] | undefined) ?? []).filter(
+		(additionalFormat) => additionalFormat !== format,
+	);
+	if (additionalFormats.length) {
+		plan.formats = Object.fromEntries(
+			additionalFormats.map((additionalFormat) => [additionalFormat, planFormat(additionalFormat)]),
+		);
+	}
+
+	const cacheOptions = image ? getCacheOptions(options) : undefined;
+	if (
+		cacheOptions &&
+		getCachedResponse(
+			this.getWorkflowStaticData('node'),
+			getCacheKey(image!.hash, [...fields]),
+			cacheOptions,
+		)
+	) {
+		// A cached result costs nothing, so it does not count towards the limits either
+		return { ...plan, cached: true };
+	}
+
+	const limits = getLimitOptions(options);
+	const limit =
+		limits &&
+		((image && checkFileSizeLimit(limits, image.size)) ||
+			reserveUpscale(limits, usage, dimensions));
+	if (limit) {
+		// With Stop Execution, a real run stops at the first item that reaches a limit
+		return { ...plan, skipped: limits!.onLimit === 'skip', limitReached: limit };
+	}
+	return plan;
+}
+
+/**
+ * The output size an upscale request asks for: the input size times the scale, or the
+ * requested width and height. Unknown when the image is sent to the API as a URL.
+ */
+function getPlannedDimensions(
+	image: CheckedImage | undefined,
+	formFields: FormField[],
+): ImageDimensions | undefined {
+	const fields = new Map(formFields.map(([name, value]) => [name, String(value)]));
+	if (fields.has('scale')) {
+		const scale = Number(fields.get('scale'));
+		return (
+			image?.dimensions && {
+				width: Math.round(image.dimensions.width * scale),
+				height: Math.round(image.dimensions.height * scale),
+			}
+		);
+	}
+	return fields.has('customWidth')
+		? { width: Number(fields.get('customWidth')), height: Number(fields.get('customHeight')) }
+		: undefined;
+}
+
+/**
+ * Fills the Output File Name template for an upscaled image or one of its conversions.
+ */
+function getResultFileName(
+	this: IExecuteFunctions,
+	i: number,
+	source: ImageSource,
+	options: IDataObject,
+	originalWidth: number | undefined,
+	result: PlannedImage,
+): string {
+	const values: Record<string, string | number> = {
+		name: source.fileName.replace(/\.[^.]+$/, ''),
+		originalExt: /\.([^.]+)$/.exec(source.fileName)?.[1] ?? '',
+		ext: result.fileExt,
+		format: result.mimeType.replace(/^image\//, ''),
+		index: i,
+		field: source.binaryPropertyName ?? '',
+	};
+	// Sizes that are not known, as in a dry run of a URL, leave their placeholders as they are
+	if (result.width !== undefined && result.height !== undefined) {
+		values.width = result.width;
+		values.height = result.height;
+	}
+	if (this.getNodeParameter('resizeMode', i) === 'scale') {
+		values.scale = this.getNodeParameter('scale', i) as number;
+	} else if (result.width !== undefined && originalWidth) {
+		values.scale = Math.round((result.width / originalWidth) * 100) / 100;
+	}
+	return getOutputFileName((options.outputFileName as string) || DEFAULT_OUTPUT_FILE_NAME, values);
+}
+
+/**
+ * Converts an upscaled image to another format through the API's `/convert` endpoint.
+ */
+async function convertResult(
+	this: IExecuteFunctions,
+	i: number,
+	url: string,
+	format: string,
+	options: IDataObject,
+	retryOptions: RetryOptions | undefined,
+): Promise<UpscaleResponse> {
+	const fields: FormField[] = [
+		['imageUrl', url],
+		['outputFormat', format],
+	];
+	if (options.quality !== undefined && LOSSY_OUTPUT_FORMATS.includes(format)) {
+		fields.push(['quality', String(options.quality)]);
+	}
+	if (options.removeMetadata !== undefined) {
+		fields.push(['removeMetadata', (options.removeMetadata as boolean) ? '1' : '0']);
+	}
+
+	let converted: IDataObject;
+	try {
+		({ result: converted } = await withRetry(
+			async () =>
+				await upscaleImgApiRequest.call(this, 'POST', '/convert', createFormData(fields)),
+			retryOptions,
+		));
+	} catch (error) {
+		throw toUpscaleImgApiError(this.getNode(), error, i);
+	}
+	return validateUpscaleResponse(this.getNode(), converted, i);
+}
+
+/**
+ * Adds the input item's JSON and binary data to the output as configured by the
+ * Keep Input JSON and Keep Input Binaries options.
+ */
+function buildOutputItem(
+	this: IExecuteFunctions,
+	i: number,
+	json: IDataObject,
+	binary: IBinaryKeyData,
+	sources: ImageSource[],
+	options: IDataObject,
+): INodeExecutionData {
+	const item = this.getInputData()[i];
+	const keepInputJson = (options.keepInputJson as string) || 'none';
+	const keepInputBinary = (options.keepInputBinary as string) || 'none';
+
+	let outputJson = json;
+	if (keepInputJson === 'merge') {
+		outputJson = { ...item.json, ...json };
+	} else if (keepInputJson === 'nest') {
+		outputJson = { [(options.inputJsonKey as string) || 'input']: item.json, ...json };
+	}
+
+	let outputBinary = binary;
+	if (keepInputBinary !== 'none' && item.binary) {
+		const sourceProperties = sources.map((source) => source.binaryPropertyName);
+		const keptBinary: IBinaryKeyData = {};
+
+		for (const [name, data] of Object.entries(item.binary)) {
+			if (!sourceProperties.includes(name)) {
+				keptBinary[name] = data;
+			} else if (keepInputBinary === 'all') {
+				// Keep the source image next to the upscaled one if both would use the same name
+				keptBinary[name in binary ? `${name}_original` : name] = data;
+			}
+		}
+		outputBinary = { ...keptBinary, ...binary };
+	}
+
+	const newItem: INodeExecutionData = { json: outputJson, pairedItem: { item: i } };
+	if (Object.keys(outputBinary).length) {
+		newItem.binary = outputBinary;
+	}
+	return newItem;
+}
+
+async function upscaleItem(
+	this: IExecuteFunctions,
+	i: number,
+	usage: ExecutionUsage,
+): Promise<INodeExecutionData> {
+	const options = this.getNodeParameter('options', i) as IDataObject;
+	const dryRun = (options.dryRun as boolean) ?? false;
+	const { sources, multiple } = await getImageSources.call(this, i, dryRun);
+
+	let json: IDataObject = {};
+	const binary: IBinaryKeyData = {};
+
+	if (dryRun) {
+		for (const source of sources) {
+			const plan = planImage.call(this, i, source, options, usage);
+			if (multiple) {
+				json[source.binaryPropertyName!] = plan;
+			} else {
+				json = plan;
+			}
+		}
+		// The input binaries are passed through unchanged in place of the upscaled images
+		return buildOutputItem.call(this, i, json, binary, sources, {
+			...options,
+			keepInputBinary: 'all',
+		});
+	}
+
+	if (!multiple) {
+		const upscaled = await upscaleImage.call(this, i, sources[0], options, usage);
+		const outputBinaryPropertyName = (options.outputBinaryPropertyName as string) || 'data';
+		json = upscaled.json;
+		if (upscaled.binary) {
+			binary[outputBinaryPropertyName] = upscaled.binary;
+		}
+		for (const [format, data] of Object.entries(upscaled.formats ?? {})) {
+			binary[`${outputBinaryPropertyName}_${format}`] = data;
+		}
+	} else {
+		if (getAsyncJobOptions(options)?.resumeJobId) {
+			throw setErrorCode(
+				new NodeOperationError(this.getNode(), 'A job can only be resumed for a single image', {
 					itemIndex: i,
-				});
+					description:
+						'Set Input Binary Field to the one property whose job should be resumed, or clear Resume Job ID.',
+				}),
+				ERROR_CODES.invalidInput,
+			);
+		}
+		const suffix = (options.outputBinarySuffix as string) ?? '_upscaled';
+		for (const source of sources) {
+			const upscaled = await upscaleImage.call(this, i, source, options, usage);
+			json[source.binaryPropertyName!] = upscaled.json;
+			if (upscaled.binary) {
+				binary[`${source.binaryPropertyName}${suffix}`] = upscaled.binary;
+			}
+			for (const [format, data] of Object.entries(upscaled.formats ?? {})) {
+				binary[`${source.binaryPropertyName}${suffix}_${format}`] = data;
 			}
 		}
+	}
 
-		return [returnData];
+	return buildOutputItem.call(this, i, json, binary, sources, options);
+}
+
+async function getUsage(this: IExecuteFunctions, i: number): Promise<INodeExecutionData> {
+	let usage: IDataObject;
+	try {
+		usage = await upscaleImgApiRequest.call(this, 'GET', '/usage');
+	} catch (error) {
+		throw toUpscaleImgApiError(this.getNode(), error, i);
 	}
+	return {
+		json: usage,
+		pairedItem: { item: i },
+	};
 }
@@ -0,0 +1,203 @@
+import type {
+	IDataObject,
+	IHookFunctions,
+	INodeExecutionData,
+	INodeType,
+	INodeTypeDescription,
+	IWebhookFunctions,
+	IWebhookResponseData,
+} from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+
+import {
+	downloadResult,
+	getErrorStatusCode,
+	getFileNameFromUrl,
+	upscaleImgApiRequest,
+	verifyWebhookSignature,
+} from './GenericFunctions';
+
+export class UpscaleImgTrigger implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'UpscaleIMG Trigger',
+		name: 'upscaleImgTrigger',
+		icon: 'file:upscaleimg.png',
+		group: ['trigger'],
+		version: 1,
+		subtitle: '={{ $parameter["events"].join(", ") }}',
+		description: 'Starts the workflow when an UpscaleIMG job finishes',
+		defaults: {
+			name: 'UpscaleIMG Trigger',
+		},
+		inputs: [],
+		outputs: ['main'],
+		credentials: [
+			{
+				name: 'upscaleImgApi',
+				required: true,
+			},
+		],
+		webhooks: [
+			{
+				name: 'default',
+				httpMethod: 'POST',
+				responseMode: 'onReceived',
+				path: 'webhook',
+			},
+		],
+		properties: [
+			{
+				displayName: 'Events',
+				name: 'events',
+				type: 'multiOptions',
+				required: true,
+				options: [
+					{
+						name: 'Job Completed',
+						value: 'job.completed',
+						description: 'An async upscale job finished and its result is ready',
+					},
+					{
+						name: 'Job Failed',
+						value: 'job.failed',
+						description: 'An async upscale job failed',
+					},
+				],
+				default: ['job.completed'],
+				description: 'The job events to start the workflow on',
+			},
+			{
+				displayName: 'Download Image',
+				name: 'downloadImage',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to download the upscaled image into binary data. Only applies to completed jobs.',
+			},
+			{
+				displayName: 'Output Binary Field',
+				name: 'binaryPropertyName',
+				type: 'string',
+				default: 'data',
+				displayOptions: {
+					show: {
+						downloadImage: [true],
+					},
+				},
+				description: 'Name of the binary property to write the upscaled image to',
+			},
+		],
+	};
+
+	webhookMethods = {
+		default: {
+			async checkExists(this: IHookFunctions): Promise<boolean> {
+				const webhookData = this.getWorkflowStaticData('node');
+				if (webhookData.webhookId === undefined) {
+					return false;
+				}
+
+				try {
+					await upscaleImgApiRequest.call(this, 'GET', `/webhooks/${webhookData.webhookId}`);
+				} catch (error) {
+					if (getErrorStatusCode(error) === 404) {
+						// Deleted on the UpscaleIMG side, so it has to be registered again
+						delete webhookData.webhookId;
+						delete webhookData.webhookSecret;
+						return false;
+					}
+					throw error;
+				}
+				return true;
+			},
+
+			async create(this: IHookFunctions): Promise<boolean> {
+				const webhookUrl = this.getNodeWebhookUrl('default');
+				const events = this.getNodeParameter('events') as string[];
+
+				const webhook = await upscaleImgApiRequest.call(this, 'POST', '/webhooks', {
+					url: webhookUrl,
+					events,
+				});
+				if (webhook.id === undefined) {
+					return false;
+				}
+				if (!webhook.secret) {
+					// Events could not be verified without the secret, so the webhook is removed again
+					await upscaleImgApiRequest.call(this, 'DELETE', `/webhooks/${webhook.id}`);
+					throw new NodeOperationError(
+						this.getNode(),
+						'UpscaleIMG did not return a secret for the webhook',
+						{
+							description:
+								'The webhook was deleted again, because its events cannot be verified without the secret. Try to activate the workflow again.',
+						},
+					);
+				}
+
+				const webhookData = this.getWorkflowStaticData('node');
+				webhookData.webhookId = webhook.id as string;
+				webhookData.webhookSecret = webhook.secret as string;
+				return true;
+			},
+
+			async delete(this: IHookFunctions): Promise<boolean> {
+				const webhookData = this.getWorkflowStaticData('node');
+				if (webhookData.webhookId !== undefined) {
+					try {
+						await upscaleImgApiRequest.call(this, 'DELETE', `/webhooks/${webhookData.webhookId}`);
+					} catch {
+						return false;
+					}
+					delete webhookData.webhookId;
+					delete webhookData.webhookSecret;
+				}
+				return true;
+			},
+		},
+	};
+
+	async webhook(this: IWebhookFunctions): Promise<IWebhookResponseData> {
+		const webhookData = this.getWorkflowStaticData('node');
+		const req = this.getRequestObject();
+		const signature = this.getHeaderData()['x-upscaleimg-signature'] as string | undefined;
+
+		if (!verifyWebhookSignature(req.rawBody, signature, webhookData.webhookSecret as string)) {
+			const res = this.getResponseObject();
+			res.status(401).send('Invalid signature').end();
+			return { noWebhookResponse: true };
+		}
+
+		const body = this.getBodyData();
+		const events = this.getNodeParameter('events') as string[];
+		if (!events.includes(body.event as string)) {
+			// The API may send events the node does not listen to, e.g. after the events were changed
+			return { webhookResponse: 'OK' };
+		}
+
+		const { data, ...event } = body;
+		const item: INodeExecutionData = {
+			json: { ...event, ...(data as IDataObject) },
+		};
+
+		const result = (data as IDataObject | undefined)?.result as IDataObject | undefined;
+		const downloadImage = this.getNodeParameter('downloadImage', false) as boolean;
+		if (body.event === 'job.completed' && downloadImage && result?.url) {
+			const url = result.url as string;
+			const binaryPropertyName = this.getNodeParameter('binaryPropertyName', 'data') as string;
+			const fileName =
+				getFileNameFromUrl(url) ?? `${body.jobId as string}.${result.fileExt as string}`;
+
+			item.binary = {
+				[binaryPropertyName]: await downloadResult.call(this, url, fileName, {
+					size: result.size as number,
+					mimeType: result.mimeType as string,
+				}),
+			};
+		}
+
+		return {
+			workflowData: [[item]],
+		};
+	}
+}
@@ -12,8 +12,13 @@ describe('UpscaleImgApi Credentials', () => {
 		expect(credential.documentationUrl).toBe('https://upscaleimg.app/en/api-docs');
 	});
 
-	it('should have a single apiKey property', () => {
-		expect(credential.properties).toHaveLength(1);
+	it('should have apiKey, baseUrl and download host properties', () => {
+		expect(credential.properties.map((p) => p.name)).toEqual([
+			'apiKey',
+			'baseUrl',
+			'allowedDownloadHosts',
+			'allowPrivateDownloads',
+		]);
 
 		const apiKeyProp = credential.properties[0];
 		expect(apiKeyProp.name).toBe('apiKey');
@@ -22,6 +27,21 @@ describe('UpscaleImgApi Credentials', () => {
 		expect(apiKeyProp.typeOptions).toEqual({ password: true });
 	});
 
+	it('should default baseUrl to the public API', () => {
+		const baseUrlProp = credential.properties.find((p) => p.name === 'baseUrl');
+		expect(baseUrlProp?.type).toBe('string');
+		expect(baseUrlProp?.required).toBe(true);
+		expect(baseUrlProp?.default).toBe('https://upscaleimg.app/api/v1');
+	});
+
+	it('should leave the download hosts empty for the UpscaleIMG defaults', () => {
+		const hostsProp = credential.properties.find((p) => p.name === 'allowedDownloadHosts');
+		const privateProp = credential.properties.find((p) => p.name === 'allowPrivateDownloads');
+		expect(hostsProp?.default).toBe('');
+		expect(hostsProp?.placeholder).toBe('upscaleimg.app, *.upscaleimg.app');
+		expect(privateProp?.default).toBe(false);
+	});
+
 	it('should authenticate with Bearer token in Authorization header', () => {
 		expect(credential.authenticate).toEqual({
 			type: 'generic',
@@ -32,4 +52,10 @@ describe('UpscaleImgApi Credentials', () => {
 			},
 		});
 	});
+
+	it('should define a credential test request against the configured base URL', () => {
+		expect(credential.test?.request.method).toBe('GET');
+		expect(credential.test?.request.url).toBe('/usage');
+		expect(credential.test?.request.baseURL).toContain('$credentials.baseUrl');
+	});
 });
@@ -0,0 +1,447 @@
+import type { INode } from 'n8n-workflow';
+import { createHash, createHmac } from 'crypto';
+import { Readable } from 'stream';
+import {
+	DEFAULT_DOWNLOAD_HOSTS,
+	getAllowedDownloadHosts,
+	getAsyncJobOptions,
+	getCachedResponse,
+	getCacheKey,
+	getCacheOptions,
+	getErrorStatusCode,
+	getLimitOptions,
+	getOutputFileName,
+	getRetryAfterDelay,
+	getRetryOptions,
+	isAllowedDownloadHost,
+	isPrivateAddress,
+	recordUpscale,
+	releaseUpscale,
+	reserveUpscale,
+	isUpscaleResponse,
+	runWithConcurrency,
+	sampleContent,
+	sanitizeFileName,
+	setCachedResponse,
+	tapContent,
+	validateUpscaleResponse,
+	verifyWebhookSignature,
+	wildcardToRegExp,
+} from '../../../nodes/UpscaleImg/GenericFunctions';
+
+describe('UpscaleImg GenericFunctions', () => {
+	describe('getRetryOptions', () => {
+		it('should return undefined when retries are not configured', () => {
+			expect(getRetryOptions({})).toBeUndefined();
+		});
+
+		it('should fill defaults for missing settings', () => {
+			expect(getRetryOptions({ retry: { settings: {} } })).toEqual({
+				maxAttempts: 3,
+				baseDelay: 1000,
+				maxDelay: 30000,
+				respectRetryAfter: true,
+				retryOnStatusCodes: [429, 500, 502, 503, 504],
+			});
+		});
+
+		it('should convert status codes to numbers', () => {
+			const retry = { settings: { retryOnStatusCodes: ['429', 503] } };
+			expect(getRetryOptions({ retry })?.retryOnStatusCodes).toEqual([429, 503]);
+		});
+	});
+
+	describe('getAsyncJobOptions', () => {
+		it('should return undefined when async jobs are not configured', () => {
+			expect(getAsyncJobOptions({})).toBeUndefined();
+		});
+
+		it('should fill defaults for missing settings', () => {
+			expect(getAsyncJobOptions({ asyncJob: { settings: {} } })).toEqual({
+				pollInterval: 5,
+				timeout: 600,
+				waitForResult: true,
+				resumeJobId: undefined,
+			});
+		});
+
+		it('should trim the job ID to resume', () => {
+			const asyncJob = { settings: { resumeJobId: ' job_123 \n' } };
+			expect(getAsyncJobOptions({ asyncJob })?.resumeJobId).toBe('job_123');
+		});
+	});
+
+	describe('sampleContent', () => {
+		const content = Buffer.alloc(300 * 1024);
+		for (let i = 0; i < content.length; i++) {
+			content[i] = i % 251;
+		}
+
+		it('should sample a stream chunk by chunk', async () => {
+			const chunks = [0, 1, 2, 3, 4].map((n) => content.subarray(n * 61440, (n + 1) * 61440));
+
+			const sample = await sampleContent(Readable.from(chunks));
+
+			expect(sample.size).toBe(content.length);
+			expect(sample.hash).toBe(createHash('sha256').update(content).digest('hex'));
+			expect(sample.head.equals(content.subarray(0, 256 * 1024))).toBe(true);
+			expect(sample.tail.equals(content.subarray(content.length - 1024))).toBe(true);
+		});
+
+		it('should find a JPEG end marker split between chunks', async () => {
+			const chunks = [Buffer.from([1, 2, 0xff]), Buffer.from([0xd9]), Buffer.alloc(4096)];
+
+			const sample = await sampleContent(Readable.from(chunks));
+
+			expect(sample.jpegEndOffset).toBe(2);
+		});
+
+		it('should use a buffer as is', async () => {
+			const sample = await sampleContent(content);
+
+			expect(sample.head).toBe(content);
+			expect(sample.tail).toBe(content);
+			expect(sample.size).toBe(content.length);
+			expect(sample.hash).toBe(createHash('sha256').update(content).digest('hex'));
+		});
+	});
+
+	describe('limits', () => {
+		it('should fill defaults and convert the file size from MB', () => {
+			expect(getLimitOptions({ limits: { settings: { maxFileSize: 1.5 } } })).toEqual({
+				maxImages: 100,
+				maxMegapixels: 0,
+				maxFileSize: 1.5 * 1024 * 1024,
+				onLimit: 'fail',
+			});
+			expect(getLimitOptions({})).toBeUndefined();
+		});
+
+		it('should count reserved images and treat 0 as no limit', () => {
+			const usage = { images: 0, megapixels: 0 };
+			const limits = { maxImages: 1, maxMegapixels: 0, maxFileSize: 0, onLimit: 'fail' as const };
+
+			expect(reserveUpscale(limits, usage)).toBeUndefined();
+			expect(reserveUpscale(limits, usage)).toBe('maxImages');
+			expect(usage.images).toBe(1);
+			expect(reserveUpscale({ ...limits, maxImages: 0 }, usage)).toBeUndefined();
+		});
+
+		it('should reserve the planned megapixels and correct them from the result', () => {
+			const usage = { images: 0, megapixels: 0 };
+			const limits = { maxImages: 0, maxMegapixels: 2, maxFileSize: 0, onLimit: 'fail' as const };
+
+			expect(reserveUpscale(limits, usage, { width: 1000, height: 1500 })).toBeUndefined();
+			expect(usage.megapixels).toBe(1.5);
+			expect(reserveUpscale(limits, usage, { width: 1000, height: 1000 })).toBe('maxMegapixels');
+
+			recordUpscale(usage, { width: 1000, height: 1000 }, { width: 1000, height: 1500 });
+			expect(usage.megapixels).toBe(1);
+			expect(reserveUpscale(limits, usage, { width: 1000, height: 1000 })).toBeUndefined();
+			expect(reserveUpscale(limits, usage)).toBe('maxMegapixels');
+		});
+
+		it('should free a reserved image when it is released', () => {
+			const usage = { images: 0, megapixels: 0 };
+			const limits = { maxImages: 1, maxMegapixels: 0, maxFileSize: 0, onLimit: 'fail' as const };
+
+			reserveUpscale(limits, usage, { width: 1000, height: 1000 });
+			releaseUpscale(usage, { width: 1000, height: 1000 });
+
+			expect(usage).toEqual({ images: 0, megapixels: 0 });
+			expect(reserveUpscale(limits, usage)).toBeUndefined();
+		});
+	});
+
+	describe('download hosts', () => {
+		it.each([
+			['storage.upscaleimg.app', true],
+			['upscaleimg.app', true],
+			['STORAGE.UpscaleIMG.app', true],
+			['upscaleimg.app.attacker.com', false],
+			['evilupscaleimg.app', false],
+		])('should match %s against the default allowlist: %s', (hostname, allowed) => {
+			expect(isAllowedDownloadHost(hostname, DEFAULT_DOWNLOAD_HOSTS)).toBe(allowed);
+		});
+
+		it('should add the Base URL host to the default hosts when the allowlist is empty', () => {
+			expect(getAllowedDownloadHosts({ allowedDownloadHosts: '  ' })).toBe(DEFAULT_DOWNLOAD_HOSTS);
+			expect(
+				getAllowedDownloadHosts({ baseUrl: 'http://localhost:4010/mock/', allowedDownloadHosts: '' }),
+			).toBe('upscaleimg.app, *.upscaleimg.app, localhost');
+			expect(getAllowedDownloadHosts({ allowedDownloadHosts: ' cdn.example.com ' })).toBe(
+				'cdn.example.com',
+			);
+		});
+
+		it('should ignore empty entries', () => {
+			expect(isAllowedDownloadHost('cdn.example.com', ' ,cdn.example.com, ')).toBe(true);
+			expect(isAllowedDownloadHost('cdn.example.com', '')).toBe(false);
+		});
+
+		it.each([
+			['127.0.0.1', true],
+			['10.1.2.3', true],
+			['172.31.255.255', true],
+			['192.168.0.10', true],
+			['169.254.169.254', true],
+			['::1', true],
+			['fd00::1', true],
+			['fe80::1', true],
+			['::ffff:127.0.0.1', true],
+			['172.32.0.1', false],
+			['203.0.113.10', false],
+			['2606:4700::1111', false],
+			['upscaleimg.app', false],
+		])('should detect whether %s is private: %s', (address, isPrivate) => {
+			expect(isPrivateAddress(address)).toBe(isPrivate);
+		});
+	});
+
+	describe('validateUpscaleResponse', () => {
+		const NODE = { name: 'UpscaleIMG' } as INode;
+		const RESPONSE = {
+			original: { size: 8, width: 100, height: 100, mimeType: 'image/png', fileExt: 'png' },
+			result: {
+				size: 30,
+				width: 200,
+				height: 200,
+				mimeType: 'image/webp',
+				fileExt: 'webp',
+				url: 'https://s3.example.com/upscaled.webp',
+			},
+		};
+
+		it('should accept a response with extra fields', () => {
+			const response = { ...RESPONSE, status: 'completed', result: { ...RESPONSE.result, model: 'x' } };
+
+			expect(isUpscaleResponse(response)).toBe(true);
+			expect(validateUpscaleResponse(NODE, response, 0)).toBe(response);
+		});
+
+		it.each([
+			['a string', 'Bad Gateway', 'The response is not a JSON object.'],
+			['a missing part', { result: RESPONSE.result }, '`original` is missing.'],
+			[
+				'a negative size',
+				{ ...RESPONSE, result: { ...RESPONSE.result, size: -1 } },
+				'`result.size` should be a number but is -1.',
+			],
+			[
+				'an empty URL',
+				{ ...RESPONSE, result: { ...RESPONSE.result, url: '' } },
+				'`result.url` should be a string but is "".',
+			],
+		])('should reject %s', (_name, body, problem) => {
+			expect(isUpscaleResponse(body)).toBe(false);
+			expect(() => validateUpscaleResponse(NODE, body, 0)).toThrow(
+				expect.objectContaining({
+					description: expect.stringContaining(problem),
+					context: expect.objectContaining({ code: 'INVALID_RESPONSE', data: body }),
+				}),
+			);
+		});
+
+		it('should shorten long bodies in the description', () => {
+			const body = { html: 'x'.repeat(5000) };
+
+			expect(() => validateUpscaleResponse(NODE, body, 0)).toThrow(
+				expect.objectContaining({ description: expect.stringMatching(/Response: \{"html":"x+…$/) }),
+			);
+		});
+	});
+
+	describe('tapContent', () => {
+		it('should pass the stream through and sample it', async () => {
+			const content = Buffer.from('upscaled-image-bytes');
+			const { content: tapped, getSample } = tapContent(
+				Readable.from([content.subarray(0, 8), content.subarray(8)]),
+			);
+
+			const chunks: Buffer[] = [];
+			for await (const chunk of tapped) {
+				chunks.push(chunk as Buffer);
+			}
+
+			expect(Buffer.concat(chunks).equals(content)).toBe(true);
+			expect(getSample().size).toBe(content.length);
+			expect(getSample().hash).toBe(createHash('sha256').update(content).digest('hex'));
+		});
+
+		it('should forward errors of the source', async () => {
+			const source = new Readable({ read() {} });
+			const { content } = tapContent(source);
+			source.destroy(new Error('socket hang up'));
+
+			await expect(content.toArray()).rejects.toThrow('socket hang up');
+		});
+	});
+
+	describe('cache', () => {
+		const CACHE = { ttl: 60_000, maxEntries: 2, downloadOnHit: true };
+		const RESPONSE = { result: { url: 'https://s3.example.com/a.webp' } };
+
+		it('should fill defaults and convert the TTL from hours', () => {
+			expect(getCacheOptions({ cache: { settings: {} } })).toEqual({
+				ttl: 24 * 60 * 60 * 1000,
+				maxEntries: 1000,
+				downloadOnHit: true,
+			});
+			expect(getCacheOptions({})).toBeUndefined();
+		});
+
+		it('should key by image content and parameters', () => {
+			const key = getCacheKey('hash-a', [['scale', '2']]);
+
+			expect(key).toMatch(/^[0-9a-f]{64}$/);
+			expect(getCacheKey('hash-a', [['scale', '2']])).toBe(key);
+			expect(getCacheKey('hash-b', [['scale', '2']])).not.toBe(key);
+			expect(getCacheKey('hash-a', [['scale', '4']])).not.toBe(key);
+		});
+
+		it('should return entries until they expire', () => {
+			const store = {};
+			setCachedResponse(store, 'a', RESPONSE, CACHE, 1000);
+
+			expect(getCachedResponse(store, 'a', CACHE, 60_999)).toEqual(RESPONSE);
+			expect(getCachedResponse(store, 'a', CACHE, 61_000)).toBeUndefined();
+			expect(store).toEqual({ upscaleCache: {} });
+		});
+
+		it('should evict the oldest entries beyond the maximum', () => {
+			const store = {};
+			setCachedResponse(store, 'a', RESPONSE, CACHE, 1000);
+			setCachedResponse(store, 'b', RESPONSE, CACHE, 2000);
+			setCachedResponse(store, 'c', RESPONSE, CACHE, 3000);
+
+			expect(Object.keys((store as { upscaleCache: object }).upscaleCache)).toEqual(['b', 'c']);
+		});
+	});
+
+	describe('getErrorStatusCode', () => {
+		it('should read the status code from NodeApiError-like and axios-like errors', () => {
+			expect(getErrorStatusCode({ httpCode: '429' })).toBe(429);
+			expect(getErrorStatusCode({ response: { status: 503 } })).toBe(503);
+			expect(getErrorStatusCode({ cause: { response: { status: 502 } } })).toBe(502);
+		});
+
+		it('should return undefined for network errors', () => {
+			expect(getErrorStatusCode({ code: 'ECONNRESET' })).toBeUndefined();
+		});
+	});
+
+	describe('getRetryAfterDelay', () => {
+		it('should parse delta-seconds', () => {
+			expect(getRetryAfterDelay({ response: { headers: { 'retry-after': '3' } } })).toBe(3000);
+		});
+
+		it('should parse an HTTP date', () => {
+			const date = new Date(Date.now() + 10_000).toUTCString();
+			const delay = getRetryAfterDelay({ response: { headers: { 'retry-after': date } } });
+			expect(delay).toBeGreaterThan(8000);
+			expect(delay).toBeLessThanOrEqual(10_000);
+		});
+
+		it('should return undefined without the header', () => {
+			expect(getRetryAfterDelay({ response: { headers: {} } })).toBeUndefined();
+		});
+	});
+
+	describe('runWithConcurrency', () => {
+		it('should return results in index order', async () => {
+			const results = await runWithConcurrency(5, 2, async (index) => {
+				await new Promise((resolve) => setTimeout(resolve, 5 - index));
+				return index * 10;
+			});
+
+			expect(results).toEqual([0, 10, 20, 30, 40]);
+		});
+
+		it('should handle an empty input', async () => {
+			expect(await runWithConcurrency(0, 3, async () => 1)).toEqual([]);
+		});
+
+		it('should wait for the calls in flight before rejecting with the first error', async () => {
+			const finished: number[] = [];
+
+			await expect(
+				runWithConcurrency(5, 3, async (index) => {
+					if (index === 0) {
+						throw new Error('first');
+					}
+					await new Promise((resolve) => setTimeout(resolve, 5));
+					finished.push(index);
+					if (index === 1) {
+						throw new Error('second');
+					}
+					return index;
+				}),
+			).rejects.toThrow('first');
+
+			expect(finished).toEqual([1, 2]);
+		});
+	});
+
+	describe('wildcardToRegExp', () => {
+		it('should match any characters for "*"', () => {
+			expect(wildcardToRegExp('attachment_*').test('attachment_12')).toBe(true);
+			expect(wildcardToRegExp('attachment_*').test('my_attachment_1')).toBe(false);
+			expect(wildcardToRegExp('*').test('data')).toBe(true);
+		});
+
+		it('should treat other characters literally', () => {
+			expect(wildcardToRegExp('file.*').test('file.png')).toBe(true);
+			expect(wildcardToRegExp('file.*').test('fileXpng')).toBe(false);
+		});
+	});
+
+	describe('getOutputFileName', () => {
+		const values = { name: 'photo', ext: 'webp', width: 800, height: 600, field: 'attachment_0' };
+
+		it('should replace known placeholders and keep unknown ones', () => {
+			expect(getOutputFileName('{field}-{name}_{width}x{height}{unknown}.{ext}', values)).toBe(
+				'attachment_0-photo_800x600{unknown}.webp',
+			);
+		});
+
+		it('should append the extension when the name has none', () => {
+			expect(getOutputFileName('{name}@2x', values)).toBe('photo@2x.webp');
+		});
+
+		it('should fall back to the default name when nothing is left after sanitizing', () => {
+			expect(getOutputFileName(' .. ', values)).toBe('photo_upscaled.webp');
+		});
+	});
+
+	describe('sanitizeFileName', () => {
+		it('should replace reserved and control characters', () => {
+			expect(sanitizeFileName('a/b\\c:d*e?f"g<h>i|j\u0001k\u007fl')).toBe(
+				'a_b_c_d_e_f_g_h_i_j_k_l',
+			);
+		});
+
+		it('should trim leading and trailing dots and spaces', () => {
+			expect(sanitizeFileName(' ..hidden.png. ')).toBe('hidden.png');
+		});
+	});
+
+	describe('verifyWebhookSignature', () => {
+		const body = Buffer.from('{"event":"job.completed","jobId":"job_123"}');
+		const signature = `sha256=${createHmac('sha256', 'whsec_1').update(body).digest('hex')}`;
+
+		it('should accept a signature made with the secret', () => {
+			expect(verifyWebhookSignature(body, signature, 'whsec_1')).toBe(true);
+		});
+
+		it('should reject a signature made with another secret or body', () => {
+			expect(verifyWebhookSignature(body, signature, 'whsec_2')).toBe(false);
+			expect(verifyWebhookSignature(Buffer.from('{}'), signature, 'whsec_1')).toBe(false);
+		});
+
+		it('should reject a missing signature or secret', () => {
+			expect(verifyWebhookSignature(body, undefined, 'whsec_1')).toBe(false);
+			expect(verifyWebhookSignature(body, signature, '')).toBe(false);
+			expect(verifyWebhookSignature(body, 'sha256=abc', 'whsec_1')).toBe(false);
+		});
+	});
+});
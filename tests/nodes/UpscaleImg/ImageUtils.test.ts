@@ -0,0 +1,226 @@
+import {
+	detectImageFormat,
+	fitToHeight,
+	fitToLongestEdge,
+	fitToMegapixels,
+	fitToWidth,
+	getImageDimensions,
+	isImageComplete,
+	isSupportedInputFormat,
+	JPEG_EOI,
+	withFormatExtension,
+} from '../../../nodes/UpscaleImg/ImageUtils';
+import { createExifSegment, createGif, createJpeg, createPng, createWebp } from './images';
+
+describe('UpscaleImg ImageUtils', () => {
+	describe('detectImageFormat', () => {
+		it.each([
+			['png', createPng(10, 10), 'image/png'],
+			['jpeg', createJpeg(10, 10), 'image/jpeg'],
+			['webp', createWebp(10, 10), 'image/webp'],
+			['gif', createGif(10, 10), 'image/gif'],
+			['bmp', Buffer.from('BM\0\0\0\0'), 'image/bmp'],
+			['tiff', Buffer.from('MM\0*\0\0\0\x08'), 'image/tiff'],
+			['avif', Buffer.from('\0\0\0\x1cftypavif\0\0\0\0'), 'image/avif'],
+			['heic', Buffer.from('\0\0\0\x18ftypheic\0\0\0\0'), 'image/heic'],
+		])('should detect %s', (format, buffer, mimeType) => {
+			expect(detectImageFormat(buffer)).toMatchObject({ format, mimeType });
+		});
+
+		it('should return undefined for non-image files', () => {
+			expect(detectImageFormat(Buffer.from('%PDF-1.7'))).toBeUndefined();
+			expect(detectImageFormat(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>'))).toBeUndefined();
+			expect(detectImageFormat(Buffer.alloc(0))).toBeUndefined();
+		});
+	});
+
+	describe('isSupportedInputFormat', () => {
+		it('should accept the formats the API supports', () => {
+			expect(isSupportedInputFormat('png')).toBe(true);
+			expect(isSupportedInputFormat('jpeg')).toBe(true);
+			expect(isSupportedInputFormat('webp')).toBe(true);
+			expect(isSupportedInputFormat('tiff')).toBe(false);
+			expect(isSupportedInputFormat('heic')).toBe(false);
+		});
+	});
+
+	describe('isImageComplete', () => {
+		it('should accept complete files', () => {
+			expect(isImageComplete(createPng(10, 10), 'png')).toBe(true);
+			expect(isImageComplete(createJpeg(10, 10), 'jpeg')).toBe(true);
+			expect(isImageComplete(createWebp(10, 10), 'webp')).toBe(true);
+			expect(isImageComplete(createGif(10, 10), 'gif')).toBe(true);
+		});
+
+		it('should accept JPEGs with bytes after the end-of-image marker', () => {
+			const jpeg = Buffer.concat([createJpeg(10, 10), Buffer.alloc(16)]);
+			expect(isImageComplete(jpeg, 'jpeg')).toBe(true);
+		});
+
+		it.each([
+			['png', createPng(10, 10)],
+			['gif', createGif(10, 10)],
+		] as const)('should accept %s files with bytes after their end marker', (format, image) => {
+			const padded = Buffer.concat([image, Buffer.alloc(16), Buffer.from('metadata')]);
+			expect(isImageComplete(padded, format)).toBe(true);
+			expect(
+				isImageComplete(
+					{ head: padded.subarray(0, 16), tail: padded.subarray(-32), size: padded.length },
+					format,
+				),
+			).toBe(true);
+		});
+
+		it('should accept JPEGs with a trailer of several KB after the end-of-image marker', () => {
+			// A motion photo appends its video after the image
+			const video = Buffer.concat([Buffer.from('\0\0\0\x18ftypmp42', 'latin1'), Buffer.alloc(8 * 1024, 0x20)]);
+			const jpeg = Buffer.concat([createJpeg(10, 10), video]);
+
+			expect(isImageComplete(jpeg, 'jpeg')).toBe(true);
+			expect(
+				isImageComplete(
+					{
+						head: jpeg.subarray(0, 64),
+						tail: jpeg.subarray(-1024),
+						size: jpeg.length,
+						jpegEndOffset: createJpeg(10, 10).length - 2,
+					},
+					'jpeg',
+				),
+			).toBe(true);
+		});
+
+		it('should not take the end of an embedded thumbnail for the end of a JPEG', () => {
+			const thumbnail = Buffer.concat([Buffer.from([0xff, 0xd8]), Buffer.alloc(4), JPEG_EOI]);
+			const app1 = Buffer.concat([Buffer.from([0xff, 0xe1, 0, thumbnail.length + 2]), thumbnail]);
+			const sos = Buffer.from([0xff, 0xda, 0, 8, 1, 1, 0, 0, 0x3f, 0]);
+			const truncated = Buffer.concat([Buffer.from([0xff, 0xd8]), app1, sos, Buffer.alloc(32, 0x55)]);
+
+			expect(isImageComplete(truncated, 'jpeg')).toBe(false);
+			expect(isImageComplete(Buffer.concat([truncated, JPEG_EOI]), 'jpeg')).toBe(true);
+		});
+
+		it('should reject truncated files', () => {
+			const truncate = (buffer: Buffer) => buffer.subarray(0, buffer.length - 3);
+			expect(isImageComplete(truncate(createPng(10, 10)), 'png')).toBe(false);
+			expect(isImageComplete(truncate(createJpeg(10, 10)), 'jpeg')).toBe(false);
+			expect(isImageComplete(truncate(createWebp(10, 10)), 'webp')).toBe(false);
+			expect(isImageComplete(truncate(createGif(10, 10)), 'gif')).toBe(false);
+		});
+
+		it('should check a sample of the start and the end of a file', () => {
+			const sample = (buffer: Buffer, size = buffer.length) => ({
+				head: buffer.subarray(0, 16),
+				tail: buffer.subarray(buffer.length - 8),
+				size,
+			});
+			const webp = createWebp(10, 10);
+			expect(isImageComplete(sample(createPng(10, 10)), 'png')).toBe(true);
+			expect(isImageComplete(sample(webp), 'webp')).toBe(true);
+			expect(isImageComplete(sample(webp, webp.length - 3), 'webp')).toBe(false);
+		});
+	});
+
+	describe('withFormatExtension', () => {
+		const jpeg = detectImageFormat(createJpeg(1, 1))!;
+
+		it('should replace a wrong extension', () => {
+			expect(withFormatExtension('photo.png', jpeg)).toBe('photo.jpg');
+		});
+
+		it('should add a missing extension', () => {
+			expect(withFormatExtension('photo', jpeg)).toBe('photo.jpg');
+		});
+
+		it('should keep aliases of the right extension', () => {
+			expect(withFormatExtension('photo.JPEG', jpeg)).toBe('photo.JPEG');
+		});
+	});
+
+	describe('getImageDimensions', () => {
+		it.each([
+			['png', createPng(640, 480)],
+			['jpeg', createJpeg(640, 480)],
+			['webp', createWebp(640, 480)],
+			['gif', createGif(640, 480)],
+		] as const)('should read %s dimensions', (format, buffer) => {
+			expect(getImageDimensions(buffer, format)).toEqual({ width: 640, height: 480 });
+		});
+
+		it.each([
+			['rotated', createExifSegment(6), { width: 480, height: 640 }],
+			['rotated in big-endian EXIF', createExifSegment(8, false), { width: 480, height: 640 }],
+			['upside down', createExifSegment(3), { width: 640, height: 480 }],
+		])(
+			'should read the displayed size of a JPEG %s by its EXIF orientation',
+			(_name, exif, size) => {
+				expect(getImageDimensions(createJpeg(640, 480, exif), 'jpeg')).toEqual(size);
+			},
+		);
+
+		it('should read lossy VP8 WebP dimensions', () => {
+			const buffer = Buffer.alloc(30);
+			buffer.write('RIFF', 0, 'latin1');
+			buffer.write('WEBPVP8 ', 8, 'latin1');
+			buffer.set([0x9d, 0x01, 0x2a], 23);
+			buffer.writeUInt16LE(640, 26);
+			buffer.writeUInt16LE(480, 28);
+			expect(getImageDimensions(buffer, 'webp')).toEqual({ width: 640, height: 480 });
+		});
+
+		it('should read lossless VP8L WebP dimensions', () => {
+			const buffer = Buffer.alloc(25);
+			buffer.write('RIFF', 0, 'latin1');
+			buffer.write('WEBPVP8L', 8, 'latin1');
+			buffer[20] = 0x2f;
+			buffer.writeUInt32LE((640 - 1) | ((480 - 1) << 14), 21);
+			expect(getImageDimensions(buffer, 'webp')).toEqual({ width: 640, height: 480 });
+		});
+
+		it('should read BMP dimensions with a top-down height', () => {
+			const buffer = Buffer.alloc(26);
+			buffer.write('BM', 0, 'latin1');
+			buffer.writeInt32LE(640, 18);
+			buffer.writeInt32LE(-480, 22);
+			expect(getImageDimensions(buffer, 'bmp')).toEqual({ width: 640, height: 480 });
+		});
+
+		it('should return undefined when the header cannot be parsed', () => {
+			expect(getImageDimensions(Buffer.from([0xff, 0xd8, 0xff, 0xd9]), 'jpeg')).toBeUndefined();
+			expect(getImageDimensions(Buffer.from('II*\0'), 'tiff')).toBeUndefined();
+		});
+	});
+
+	describe('aspect-preserving fits', () => {
+		const source = { width: 1000, height: 667 };
+
+		it('should fit to a width', () => {
+			expect(fitToWidth(source, 3000)).toEqual({ width: 3000, height: 2001 });
+		});
+
+		it('should fit to a height', () => {
+			expect(fitToHeight(source, 1334)).toEqual({ width: 2000, height: 1334 });
+		});
+
+		it('should fit the longest edge of landscape and portrait images', () => {
+			expect(fitToLongestEdge(source, 2000)).toEqual({ width: 2000, height: 1334 });
+			expect(fitToLongestEdge({ width: 667, height: 1000 }, 2000)).toEqual({
+				width: 1334,
+				height: 2000,
+			});
+		});
+
+		it('should fit to a number of megapixels', () => {
+			const { width, height } = fitToMegapixels({ width: 400, height: 300 }, 12);
+			expect({ width, height }).toEqual({ width: 4000, height: 3000 });
+			expect(fitToMegapixels(source, 2).width / fitToMegapixels(source, 2).height).toBeCloseTo(
+				1000 / 667,
+				2,
+			);
+		});
+
+		it('should never return a side shorter than one pixel', () => {
+			expect(fitToWidth({ width: 5000, height: 10 }, 100)).toEqual({ width: 100, height: 1 });
+		});
+	});
+});
@@ -5,18 +5,42 @@ import type {
 	IExecuteFunctions,
 	IHttpRequestOptions,
 	INodeExecutionData,
+	INodeProperties,
 } from 'n8n-workflow';
-import { NodeOperationError } from 'n8n-workflow';
+import { NodeApiError, NodeOperationError, sleep } from 'n8n-workflow';
+import { lookup } from 'dns/promises';
 import FormData from 'form-data';
+import { Readable } from 'stream';
 import { UpscaleImg } from '../../../nodes/UpscaleImg/UpscaleImg.node';
+import { createGif, createJpeg, createPng, createWebp } from './images';
+
+jest.mock('n8n-workflow', () => ({
+	...jest.requireActual('n8n-workflow'),
+	sleep: jest.fn(async () => {}),
+}));
+
+// Result hosts resolve to a public address unless a test says otherwise
+jest.mock('dns/promises', () => ({
+	lookup: jest.fn(async () => [{ address: '203.0.113.10', family: 4 }]),
+}));
 
 function getFormBodyStr(call: IHttpRequestOptions): string {
 	return (call.body as FormData).getBuffer().toString('utf8');
 }
 
+async function readStream(stream: NodeJS.ReadableStream): Promise<Buffer> {
+	return await new Promise((resolve, reject) => {
+		const chunks: Buffer[] = [];
+		stream.on('data', (chunk: Buffer | string) => chunks.push(Buffer.from(chunk)));
+		stream.on('end', () => resolve(Buffer.concat(chunks)));
+		stream.on('error', reject);
+		stream.resume();
+	});
+}
+
 // --- Shared test data ---
 
-const FAKE_PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const FAKE_PNG = createPng(100, 100);
 
 const API_RESPONSE = {
 	original: {
@@ -27,7 +51,7 @@ const API_RESPONSE = {
 		fileExt: 'png',
 	},
 	result: {
-		size: 32,
+		size: 30,
 		width: 200,
 		height: 200,
 		mimeType: 'image/webp',
@@ -36,7 +60,7 @@ const API_RESPONSE = {
 	},
 };
 
-const DOWNLOADED_IMAGE = Buffer.from('fake-upscaled-image-data');
+const DOWNLOADED_IMAGE = createWebp(200, 200);
 
 const MOCK_BINARY_OUTPUT: IBinaryData = {
 	data: 'base64data',
@@ -47,6 +71,13 @@ const MOCK_BINARY_OUTPUT: IBinaryData = {
 // --- Mock factory ---
 
 interface MockParams {
+	resource?: string;
+	operation?: string;
+	longestEdge?: number;
+	targetMegapixels?: number;
+	inputSource?: string;
+	imageUrl?: string;
+	urlHandling?: string;
 	resizeMode?: string;
 	scale?: number;
 	customWidth?: number;
@@ -58,12 +89,16 @@ interface MockParams {
 
 interface MockOptions {
 	params?: MockParams;
+	credentials?: ICredentialDataDecryptedObject;
 	continueOnFail?: boolean;
 	items?: INodeExecutionData[];
 	httpRequestFail?: boolean;
 	assertBinaryDataFail?: boolean;
 	binaryFileName?: string | undefined;
 	binaryMimeType?: string | undefined;
+	inputBuffer?: Buffer;
+	binaryBuffers?: Record<string, Buffer>;
+	staticData?: IDataObject;
 }
 
 function createMockExecuteFunctions(opts: MockOptions = {}): IExecuteFunctions {
@@ -73,12 +108,18 @@ function createMockExecuteFunctions(opts: MockOptions = {}): IExecuteFunctions {
 		items = [{ json: {}, binary: { data: { data: '', mimeType: 'image/png', fileName: 'photo.png' } } }],
 		httpRequestFail = false,
 		assertBinaryDataFail = false,
+		credentials = {
+			apiKey: 'test-api-key-123',
+			baseUrl: 'https://upscaleimg.app/api/v1',
+			allowedDownloadHosts: 's3.example.com',
+		},
 	} = opts;
 
 	const hasBinaryFileName = 'binaryFileName' in opts;
 	const hasBinaryMimeType = 'binaryMimeType' in opts;
 
 	const defaults: MockParams = {
+		inputSource: 'binary',
 		binaryPropertyName: 'data',
 		resizeMode: 'scale',
 		scale: 2,
@@ -87,25 +128,27 @@ function createMockExecuteFunctions(opts: MockOptions = {}): IExecuteFunctions {
 	};
 
 	const httpRequestCalls: IHttpRequestOptions[] = [];
+	const preparedContents: Buffer[] = [];
+	const staticData = opts.staticData ?? {};
 
 	const mock = {
 		getInputData: jest.fn(() => items),
 
-		getNodeParameter: jest.fn((name: string, _i: number) => {
-			return (defaults as Record<string, unknown>)[name];
+		getNodeParameter: jest.fn((name: string, _i: number, fallback?: unknown) => {
+			return name in defaults ? (defaults as Record<string, unknown>)[name] : fallback;
 		}),
 
-		getCredentials: jest.fn(async (_name: string): Promise<ICredentialDataDecryptedObject> => ({
-			apiKey: 'test-api-key-123',
-		})),
+		getCredentials: jest.fn(async (_name: string): Promise<ICredentialDataDecryptedObject> => credentials),
 
 		getNode: jest.fn(() => ({ name: 'UpscaleIMG' })),
 
 		continueOnFail: jest.fn(() => continueOnFail),
 
+		getWorkflowStaticData: jest.fn(() => staticData),
+
 		helpers: {
-			assertBinaryData: jest.fn((_i: number, _name: string) => {
-				if (assertBinaryDataFail) {
+			assertBinaryData: jest.fn((_i: number, name: string) => {
+				if (assertBinaryDataFail || (opts.binaryBuffers && !(name in opts.binaryBuffers))) {
 					throw new Error('No binary data found');
 				}
 				const result: Record<string, unknown> = {
@@ -124,7 +167,27 @@ function createMockExecuteFunctions(opts: MockOptions = {}): IExecuteFunctions {
 				return result;
 			}),
 
-			getBinaryDataBuffer: jest.fn(async () => FAKE_PNG),
+			getBinaryDataBuffer: jest.fn(
+				async (_i: number, name: string) =>
+					opts.binaryBuffers?.[name] ?? opts.inputBuffer ?? FAKE_PNG,
+			),
+
+			// Stored binaries are addressed by id; the tests use the property name as the id
+			getBinaryStream: jest.fn(async (id: string) =>
+				Readable.from([opts.binaryBuffers?.[id] ?? opts.inputBuffer ?? FAKE_PNG]),
+			),
+
+			httpRequestWithAuthentication: jest.fn(
+				async (_credentialsType: string, options: IHttpRequestOptions) => {
+					httpRequestCalls.push(options);
+
+					if (httpRequestFail) {
+						throw new Error('API request failed');
+					}
+
+					return API_RESPONSE;
+				},
+			),
 
 			httpRequest: jest.fn(async (options: IHttpRequestOptions) => {
 				httpRequestCalls.push(options);
@@ -133,18 +196,22 @@ function createMockExecuteFunctions(opts: MockOptions = {}): IExecuteFunctions {
 					throw new Error('API request failed');
 				}
 
-				// First call = API upscale, second call = image download
-				if (httpRequestCalls.length % 2 === 1) {
-					return API_RESPONSE;
+				if (options.url !== API_RESPONSE.result.url) {
+					return opts.inputBuffer ?? FAKE_PNG;
 				}
-				return DOWNLOADED_IMAGE;
+				return options.encoding === 'stream' ? Readable.from([DOWNLOADED_IMAGE]) : DOWNLOADED_IMAGE;
 			}),
 
-			prepareBinaryData: jest.fn(async () => MOCK_BINARY_OUTPUT),
+			// Reads streams to the end like the binary data store does
+			prepareBinaryData: jest.fn(async (content: Buffer | Readable) => {
+				preparedContents.push(Buffer.isBuffer(content) ? content : await readStream(content));
+				return MOCK_BINARY_OUTPUT;
+			}),
 		},
 
 		// Expose for assertions
 		_httpRequestCalls: httpRequestCalls,
+		_preparedContents: preparedContents,
 	};
 
 	return mock as unknown as IExecuteFunctions;
@@ -159,7 +226,8 @@ describe('UpscaleImg Node', () => {
 		it('should have correct basic metadata', () => {
 			expect(node.description.name).toBe('upscaleImg');
 			expect(node.description.displayName).toBe('UpscaleIMG');
-			expect(node.description.version).toBe(1);
+			expect(node.description.version).toEqual([1, 2]);
+			expect(node.description.defaultVersion).toBe(2);
 			expect(node.description.group).toContain('transform');
 		});
 
@@ -192,7 +260,10 @@ describe('UpscaleImg Node', () => {
 
 		it('should define all expected properties', () => {
 			const propNames = node.description.properties.map((p) => p.name);
+			expect(propNames).toContain('inputSource');
 			expect(propNames).toContain('binaryPropertyName');
+			expect(propNames).toContain('imageUrl');
+			expect(propNames).toContain('urlHandling');
 			expect(propNames).toContain('resizeMode');
 			expect(propNames).toContain('scale');
 			expect(propNames).toContain('customWidth');
@@ -201,6 +272,35 @@ describe('UpscaleImg Node', () => {
 			expect(propNames).toContain('options');
 		});
 
+		it('should offer the resource parameter from version 2 on', () => {
+			const resourceProp = node.description.properties.find((p) => p.name === 'resource');
+			const resources = (resourceProp?.options as Array<{ value: string }>).map((o) => o.value);
+
+			expect(resources).toEqual(['account', 'image']);
+			expect(resourceProp?.default).toBe('image');
+			expect(resourceProp?.displayOptions?.show?.['@version']).toEqual([2]);
+		});
+
+		it('should define an operation for each resource', () => {
+			const operations = node.description.properties.filter((p) => p.name === 'operation');
+
+			expect(operations.map((p) => p.displayOptions?.show?.resource)).toEqual([
+				['image'],
+				['account'],
+			]);
+			expect(operations.map((p) => p.default)).toEqual(['upscale', 'getUsage']);
+		});
+
+		it('should hide the image properties for the account resource', () => {
+			const imageProps = node.description.properties.filter(
+				(p) => !['resource', 'operation'].includes(p.name),
+			);
+
+			for (const prop of imageProps) {
+				expect(prop.displayOptions?.hide?.resource).toEqual(['account']);
+			}
+		});
+
 		it('should show scale only when resizeMode is scale', () => {
 			const scaleProp = node.description.properties.find((p) => p.name === 'scale');
 			expect(scaleProp?.displayOptions?.show?.resizeMode).toEqual(['scale']);
@@ -211,10 +311,51 @@ describe('UpscaleImg Node', () => {
 			const heightProp = node.description.properties.find((p) => p.name === 'customHeight');
 			const fitProp = node.description.properties.find((p) => p.name === 'objectFit');
 
-			expect(widthProp?.displayOptions?.show?.resizeMode).toEqual(['customDimensions']);
-			expect(heightProp?.displayOptions?.show?.resizeMode).toEqual(['customDimensions']);
+			expect(widthProp?.displayOptions?.show?.resizeMode).toContain('customDimensions');
+			expect(heightProp?.displayOptions?.show?.resizeMode).toContain('customDimensions');
 			expect(fitProp?.displayOptions?.show?.resizeMode).toEqual(['customDimensions']);
 		});
+
+		it('should reuse width and height for the fit width and fit height modes', () => {
+			const widthProp = node.description.properties.find((p) => p.name === 'customWidth');
+			const heightProp = node.description.properties.find((p) => p.name === 'customHeight');
+			const edgeProp = node.description.properties.find((p) => p.name === 'longestEdge');
+			const mpProp = node.description.properties.find((p) => p.name === 'targetMegapixels');
+
+			expect(widthProp?.displayOptions?.show?.resizeMode).toEqual(['customDimensions', 'fitWidth']);
+			expect(heightProp?.displayOptions?.show?.resizeMode).toEqual(['customDimensions', 'fitHeight']);
+			expect(edgeProp?.displayOptions?.show?.resizeMode).toEqual(['longestEdge']);
+			expect(mpProp?.displayOptions?.show?.resizeMode).toEqual(['targetMegapixels']);
+		});
+
+		it('should show the quality for any output format, as it also applies to conversions', () => {
+			const optionsProp = node.description.properties.find((p) => p.name === 'options');
+			const qualityProp = (optionsProp?.options as INodeProperties[]).find(
+				(p) => p.name === 'quality',
+			);
+
+			expect(qualityProp?.displayOptions).toBeUndefined();
+			expect(qualityProp?.typeOptions).toEqual({ minValue: 1, maxValue: 100 });
+		});
+
+		it('should describe every resize mode in the subtitle', () => {
+			const resizeModeProp = node.description.properties.find((p) => p.name === 'resizeMode');
+			const modes = (resizeModeProp?.options as Array<{ value: string }>).map((o) => o.value);
+
+			expect(modes).toEqual([
+				'scale',
+				'customDimensions',
+				'fitWidth',
+				'fitHeight',
+				'longestEdge',
+				'targetMegapixels',
+			]);
+			for (const mode of modes) {
+				expect(node.description.subtitle).toContain(`${mode}: `);
+			}
+			expect(node.description.subtitle).toContain('$parameter["longestEdge"]');
+			expect(node.description.subtitle).toContain('$parameter["targetMegapixels"]');
+		});
 	});
 
 	describe('execute', () => {
@@ -255,7 +396,10 @@ describe('UpscaleImg Node', () => {
 			const apiCall = calls[0];
 			expect(apiCall.method).toBe('POST');
 			expect(apiCall.url).toBe('https://upscaleimg.app/api/v1/upscale');
-			expect(apiCall.headers?.Authorization).toBe('Bearer test-api-key-123');
+			expect(mock.helpers.httpRequestWithAuthentication).toHaveBeenCalledWith(
+				'upscaleImgApi',
+				apiCall,
+			);
 
 			// Verify multipart body contains scale=2
 			const bodyStr = getFormBodyStr(apiCall);
@@ -267,7 +411,60 @@ describe('UpscaleImg Node', () => {
 			const downloadCall = calls[1];
 			expect(downloadCall.method).toBe('GET');
 			expect(downloadCall.url).toBe(API_RESPONSE.result.url);
-			expect(downloadCall.encoding).toBe('arraybuffer');
+			expect(downloadCall.encoding).toBe('stream');
+		});
+
+		it('should never copy the API key into request options', async () => {
+			const mock = createMockExecuteFunctions();
+
+			await node.execute.call(mock);
+
+			const calls = (mock as unknown as { _httpRequestCalls: IHttpRequestOptions[] })._httpRequestCalls;
+			for (const call of calls) {
+				expect(call.headers?.Authorization).toBeUndefined();
+				expect(JSON.stringify({ ...call, body: undefined })).not.toContain('test-api-key-123');
+			}
+		});
+
+		it('should download the signed URL without authentication', async () => {
+			const mock = createMockExecuteFunctions();
+
+			await node.execute.call(mock);
+
+			expect(mock.helpers.httpRequestWithAuthentication).toHaveBeenCalledTimes(1);
+			expect(mock.helpers.httpRequest).toHaveBeenCalledTimes(1);
+			expect(mock.helpers.httpRequest).toHaveBeenCalledWith({
+				method: 'GET',
+				url: API_RESPONSE.result.url,
+				encoding: 'stream',
+				disableFollowRedirect: true,
+			});
+		});
+
+		it('should use the base URL from the credentials', async () => {
+			const mock = createMockExecuteFunctions({
+				credentials: {
+					apiKey: 'test-api-key-123',
+					baseUrl: 'http://localhost:4010/mock/',
+					allowedDownloadHosts: 's3.example.com',
+				},
+			});
+
+			await node.execute.call(mock);
+
+			const calls = (mock as unknown as { _httpRequestCalls: IHttpRequestOptions[] })._httpRequestCalls;
+			expect(calls[0].url).toBe('http://localhost:4010/mock/upscale');
+		});
+
+		it('should fall back to the default base URL when credentials have none', async () => {
+			const mock = createMockExecuteFunctions({
+				credentials: { apiKey: 'test-api-key-123', allowedDownloadHosts: 's3.example.com' },
+			});
+
+			await node.execute.call(mock);
+
+			const calls = (mock as unknown as { _httpRequestCalls: IHttpRequestOptions[] })._httpRequestCalls;
+			expect(calls[0].url).toBe('https://upscaleimg.app/api/v1/upscale');
 		});
 
 		it('should upscale with scale mode (4x)', async () => {
@@ -307,6 +504,65 @@ describe('UpscaleImg Node', () => {
 			expect(bodyStr).not.toContain('name="scale"');
 		});
 
+		it.each([
+			['fitWidth', { customWidth: 1600 }, 1600, 1200],
+			['fitHeight', { customHeight: 600 }, 800, 600],
+			['longestEdge', { longestEdge: 2000 }, 2000, 1500],
+			['targetMegapixels', { targetMegapixels: 12 }, 4000, 3000],
+		])(
+			'should compute aspect-preserving dimensions for %s',
+			async (resizeMode, params, width, height) => {
+				const mock = createMockExecuteFunctions({
+					params: { resizeMode, ...params },
+					inputBuffer: createPng(400, 300),
+				});
+
+				await node.execute.call(mock);
+
+				const calls = (mock as unknown as { _httpRequestCalls: IHttpRequestOptions[] })._httpRequestCalls;
+				const bodyStr = getFormBodyStr(calls[0]);
+				expect(bodyStr).toContain(`name="customWidth"\r\n\r\n${width}\r\n`);
+				expect(bodyStr).toContain(`name="customHeight"\r\n\r\n${height}\r\n`);
+				expect(bodyStr).toContain('name="objectFit"\r\n\r\nfill\r\n');
+				expect(bodyStr).not.toContain('name="scale"');
+			},
+		);
+
+		it('should use the longer side for longestEdge on portrait images', async () => {
+			const mock = createMockExecuteFunctions({
+				params: { resizeMode: 'longestEdge', longestEdge: 1000 },
+				inputBuffer: createPng(300, 400),
+			});
+
+			await node.execute.call(mock);
+
+			const calls = (mock as unknown as { _httpRequestCalls: IHttpRequestOptions[] })._httpRequestCalls;
+			const bodyStr = getFormBodyStr(calls[0]);
+			expect(bodyStr).toContain('name="customWidth"\r\n\r\n750\r\n');
+			expect(bodyStr).toContain('name="customHeight"\r\n\r\n1000\r\n');
+		});
+
+		it('should fail aspect-preserving modes when the input size is unknown', async () => {
+			const mock = createMockExecuteFunctions({
+				continueOnFail: true,
+				params: {
+					inputSource: 'url',
+					imageUrl: 'https://cdn.example.com/photo.jpg',
+					urlHandling: 'passUrl',
+					resizeMode: 'fitWidth',
+					customWidth: 1000,
+				},
+			});
+
+			const result = await node.execute.call(mock);
+
+			expect(result[0][0].json).toEqual({
+				error: 'Could not read the dimensions of the input image',
+				code: 'INVALID_INPUT',
+			});
+			expect(mock.helpers.httpRequestWithAuthentication).not.toHaveBeenCalled();
+		});
+
 		it('should append outputFormat when set', async () => {
 			const mock = createMockExecuteFunctions({
 				params: {
@@ -324,6 +580,64 @@ describe('UpscaleImg Node', () => {
 			expect(bodyStr).toContain('\r\nwebp\r\n');
 		});
 
+		it.each([
+			['JPEG', createJpeg(100, 100), 'jpg'],
+			['WebP', createWebp(100, 100), 'webp'],
+			['PNG', createPng(100, 100), 'png'],
+			['GIF', createGif(100, 100), 'png'],
+		])('should keep the format of a %s input with Same as Input', async (_name, input, format) => {
+			const mock = createMockExecuteFunctions({
+				inputBuffer: input,
+				params: { options: { outputFormat: 'sameAsInput' } },
+			});
+
+			await node.execute.call(mock);
+
+			const calls = (mock as unknown as { _httpRequestCalls: IHttpRequestOptions[] })._httpRequestCalls;
+			expect(getFormBodyStr(calls[0])).toContain(`name="outputFormat"\r\n\r\n${format}\r\n`);
+		});
+
+		it('should leave the format to the API with Same as Input when only a URL is sent', async () => {
+			const mock = createMockExecuteFunctions({
+				params: {
+					inputSource: 'url',
+					imageUrl: 'https://example.com/photo.jpg',
+					urlHandling: 'passUrl',
+					options: { outputFormat: 'sameAsInput', quality: 80 },
+				},
+			});
+
+			await node.execute.call(mock);
+
+			const calls = (mock as unknown as { _httpRequestCalls: IHttpRequestOptions[] })._httpRequestCalls;
+			const bodyStr = getFormBodyStr(calls[0]);
+			expect(bodyStr).not.toContain('name="outputFormat"');
+			expect(bodyStr).not.toContain('name="quality"');
+		});
+
+		it.each([
+			['jpg', FAKE_PNG, true],
+			['webp', FAKE_PNG, true],
+			['png', FAKE_PNG, false],
+			['sameAsInput', createJpeg(100, 100), true],
+			['sameAsInput', FAKE_PNG, false],
+		])('should send the quality for %s output only when it is lossy', async (outputFormat, input, sent) => {
+			const mock = createMockExecuteFunctions({
+				inputBuffer: input,
+				params: { options: { outputFormat, quality: 75 } },
+			});
+
+			await node.execute.call(mock);
+
+			const calls = (mock as unknown as { _httpRequestCalls: IHttpRequestOptions[] })._httpRequestCalls;
+			const bodyStr = getFormBodyStr(calls[0]);
+			if (sent) {
+				expect(bodyStr).toContain('name="quality"\r\n\r\n75\r\n');
+			} else {
+				expect(bodyStr).not.toContain('name="quality"');
+			}
+		});
+
 		it('should send removeMetadata=1 when true', async () => {
 			const mock = createMockExecuteFunctions({
 				params: {
@@ -387,7 +701,7 @@ describe('UpscaleImg Node', () => {
 			expect(bodyStr).toContain('filename="image.png"');
 
 			expect(mock.helpers.prepareBinaryData).toHaveBeenCalledWith(
-				expect.any(Buffer),
+				expect.any(Readable),
 				'image_upscaled.webp',
 				'image/webp',
 			);
@@ -414,12 +728,60 @@ describe('UpscaleImg Node', () => {
 			await node.execute.call(mock);
 
 			expect(mock.helpers.prepareBinaryData).toHaveBeenCalledWith(
-				expect.any(Buffer),
+				expect.any(Readable),
 				'photo_upscaled.webp',
 				'image/webp',
 			);
 		});
 
+		it('should render the output file name template', async () => {
+			const mock = createMockExecuteFunctions({
+				params: { options: { outputFileName: 'SKU-7_{width}x{height}_{scale}x_{index}.{ext}' } },
+			});
+
+			await node.execute.call(mock);
+
+			expect(mock.helpers.prepareBinaryData).toHaveBeenCalledWith(
+				expect.any(Readable),
+				'SKU-7_200x200_2x_0.webp',
+				'image/webp',
+			);
+		});
+
+		it('should compute the scale placeholder from the dimensions in custom modes', async () => {
+			const mock = createMockExecuteFunctions({
+				params: {
+					resizeMode: 'customDimensions',
+					customWidth: 200,
+					customHeight: 200,
+					objectFit: 'cover',
+					options: { outputFileName: '{name}@{scale}x.{format}' },
+				},
+			});
+
+			await node.execute.call(mock);
+
+			expect(mock.helpers.prepareBinaryData).toHaveBeenCalledWith(
+				expect.any(Readable),
+				'photo@2x.webp',
+				'image/webp',
+			);
+		});
+
+		it('should append the result extension and sanitize unsafe characters', async () => {
+			const mock = createMockExecuteFunctions({
+				params: { options: { outputFileName: 'shop/{name}: "large" <{originalExt}>' } },
+			});
+
+			await node.execute.call(mock);
+
+			expect(mock.helpers.prepareBinaryData).toHaveBeenCalledWith(
+				expect.any(Readable),
+				'shop_photo_ _large_ _png_.webp',
+				'image/webp',
+			);
+		});
+
 		it('should process multiple items with correct pairedItem', async () => {
 			const items: INodeExecutionData[] = [
 				{ json: {}, binary: { data: { data: '', mimeType: 'image/png', fileName: 'a.png' } } },
@@ -438,44 +800,2409 @@ describe('UpscaleImg Node', () => {
 			expect(result[0][1].pairedItem).toEqual({ item: 1 });
 		});
 
-		describe('error handling', () => {
-			it('should return error JSON when continueOnFail is true', async () => {
+		describe('streaming', () => {
+			const STORED_ITEM = {
+				json: {},
+				binary: {
+					data: { id: 'data', data: 'filesystem-v2', mimeType: 'image/png', fileName: 'photo.png' },
+				},
+			};
+
+			async function getUploadBody(mock: IExecuteFunctions, call = 0): Promise<Buffer> {
+				const options = (mock.helpers.httpRequestWithAuthentication as jest.Mock).mock.calls[call][1];
+				return await readStream((options as IHttpRequestOptions).body as FormData);
+			}
+
+			it('should stream stored binaries instead of loading them into memory', async () => {
+				const mock = createMockExecuteFunctions({ items: [STORED_ITEM] });
+
+				await node.execute.call(mock);
+
+				const body = await getUploadBody(mock);
+				expect(mock.helpers.getBinaryDataBuffer).not.toHaveBeenCalled();
+				// Once for the input checks and once for the upload
+				expect(mock.helpers.getBinaryStream).toHaveBeenCalledTimes(2);
+				expect(body.includes(FAKE_PNG)).toBe(true);
+				expect(body.toString('latin1')).toContain('filename="photo.png"');
+				expect(body.toString('latin1')).toContain('name="scale"\r\n\r\n2');
+			});
+
+			it('should produce the same result for stored and in-memory binaries', async () => {
+				const stored = createMockExecuteFunctions({ items: [STORED_ITEM] });
+				const inMemory = createMockExecuteFunctions();
+
+				const storedResult = await node.execute.call(stored);
+				const inMemoryResult = await node.execute.call(inMemory);
+
+				const withoutBoundary = (body: Buffer) =>
+					body.toString('latin1').replace(/-{26}[0-9a-f]{24}/g, 'BOUNDARY');
+				expect(storedResult).toEqual(inMemoryResult);
+				expect(withoutBoundary(await getUploadBody(stored))).toBe(
+					withoutBoundary(await getUploadBody(inMemory)),
+				);
+			});
+
+			it('should open a new stream for every upload attempt', async () => {
 				const mock = createMockExecuteFunctions({
+					items: [STORED_ITEM],
+					params: { options: { retry: { settings: { maxAttempts: 2, baseDelay: 0 } } } },
+				});
+				(mock.helpers.httpRequestWithAuthentication as jest.Mock)
+					.mockRejectedValueOnce({ httpCode: '503', message: 'Service Unavailable' })
+					.mockResolvedValueOnce(API_RESPONSE);
+
+				const result = await node.execute.call(mock);
+
+				expect(mock.helpers.getBinaryStream).toHaveBeenCalledTimes(3);
+				expect((await getUploadBody(mock, 1)).includes(FAKE_PNG)).toBe(true);
+				expect(result[0][0].json.attempts).toEqual({ upscale: 2, download: 1 });
+			});
+
+			it('should validate stored binaries from the streamed sample', async () => {
+				const mock = createMockExecuteFunctions({
+					items: [STORED_ITEM],
 					continueOnFail: true,
-					httpRequestFail: true,
+					inputBuffer: FAKE_PNG.subarray(0, FAKE_PNG.length - 4),
 				});
 
 				const result = await node.execute.call(mock);
 
-				expect(result[0]).toHaveLength(1);
+				expect(result[0][0].json.code).toBe('CORRUPT_IMAGE');
+				expect(mock.helpers.httpRequestWithAuthentication).not.toHaveBeenCalled();
+			});
+
+			it('should stream the download into the binary data', async () => {
+				const mock = createMockExecuteFunctions();
+
+				await node.execute.call(mock);
+
+				const [content, fileName, mimeType] = (mock.helpers.prepareBinaryData as jest.Mock).mock
+					.calls[0];
+				expect(content).toBeInstanceOf(Readable);
+				expect((mock as unknown as { _preparedContents: Buffer[] })._preparedContents).toEqual([
+					DOWNLOADED_IMAGE,
+				]);
+				expect(fileName).toBe('photo_upscaled.webp');
+				expect(mimeType).toBe('image/webp');
+			});
+		});
+
+		describe('result verification', () => {
+			function mockDownload(mock: IExecuteFunctions, ...downloads: Buffer[]): void {
+				for (const download of downloads) {
+					(mock.helpers.httpRequest as jest.Mock).mockResolvedValueOnce(Readable.from([download]));
+				}
+			}
+
+			it.each([
+				['a truncated download', DOWNLOADED_IMAGE.subarray(0, 20), 'Expected 30 bytes but received 20.'],
+				[
+					'an error page',
+					Buffer.from('<Error><Code>AccessDenied</Code><Message>Request has expired</Message></Error>'),
+					'The downloaded file is not an image.',
+				],
+				[
+					'another format',
+					Buffer.concat([createPng(200, 200), Buffer.alloc(30)]).subarray(0, 30),
+					'Expected image/webp but received image/png.',
+				],
+			])('should fail with RESULT_MISMATCH for %s', async (_name, download, problem) => {
+				const mock = createMockExecuteFunctions();
+				mockDownload(mock, download);
+
+				const error = await node.execute.call(mock).catch((e: NodeOperationError) => e);
+
+				expect(error).toBeInstanceOf(NodeOperationError);
+				expect((error as NodeOperationError).message).toBe(
+					'The downloaded image does not match the API response',
+				);
+				expect((error as NodeOperationError).description).toContain(problem);
+				expect((error as NodeOperationError).context.code).toBe('RESULT_MISMATCH');
+			});
+
+			it('should report the mismatch code with continueOnFail', async () => {
+				const mock = createMockExecuteFunctions({ continueOnFail: true });
+				mockDownload(mock, Buffer.from('not an image'));
+
+				const result = await node.execute.call(mock);
+
 				expect(result[0][0].json).toEqual({
-					error: 'API request failed',
+					error: 'The downloaded image does not match the API response',
+					code: 'RESULT_MISMATCH',
 				});
-				expect(result[0][0].pairedItem).toEqual({ item: 0 });
 			});
 
-			it('should throw NodeOperationError when continueOnFail is false', async () => {
+			it('should retry a download that does not match', async () => {
 				const mock = createMockExecuteFunctions({
-					continueOnFail: false,
-					httpRequestFail: true,
+					params: { options: { retry: { settings: { maxAttempts: 2, baseDelay: 0 } } } },
 				});
+				mockDownload(mock, DOWNLOADED_IMAGE.subarray(0, 20), DOWNLOADED_IMAGE);
 
-				await expect(node.execute.call(mock)).rejects.toThrow(NodeOperationError);
+				const result = await node.execute.call(mock);
+
+				expect(mock.helpers.httpRequest).toHaveBeenCalledTimes(2);
+				expect(result[0][0].json.attempts).toEqual({ upscale: 1, download: 2 });
+				expect(result[0][0].binary?.data).toEqual(MOCK_BINARY_OUTPUT);
 			});
 
-			it('should handle missing binary data with continueOnFail', async () => {
+			it('should only check the dimensions when enabled', async () => {
+				const smaller = createWebp(100, 100);
+				const withoutCheck = createMockExecuteFunctions();
+				const withCheck = createMockExecuteFunctions({
+					continueOnFail: true,
+					params: { options: { verifyDimensions: true } },
+				});
+				mockDownload(withoutCheck, smaller);
+				mockDownload(withCheck, smaller);
+
+				const unchecked = await node.execute.call(withoutCheck);
+				const checked = await node.execute.call(withCheck);
+
+				expect(unchecked[0][0].binary?.data).toEqual(MOCK_BINARY_OUTPUT);
+				expect(checked[0][0].json.code).toBe('RESULT_MISMATCH');
+			});
+
+			it('should accept a download that matches the response dimensions', async () => {
+				const mock = createMockExecuteFunctions({ params: { options: { verifyDimensions: true } } });
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].binary?.data).toEqual(MOCK_BINARY_OUTPUT);
+			});
+		});
+
+		describe('input validation', () => {
+			it('should correct a wrong mimeType and extension from the magic bytes', async () => {
+				const mock = createMockExecuteFunctions({
+					binaryFileName: 'photo.png',
+					binaryMimeType: 'image/png',
+					inputBuffer: createJpeg(100, 100),
+				});
+
+				await node.execute.call(mock);
+
+				const calls = (mock as unknown as { _httpRequestCalls: IHttpRequestOptions[] })._httpRequestCalls;
+				const bodyStr = getFormBodyStr(calls[0]);
+				expect(bodyStr).toContain('filename="photo.jpg"');
+				expect(bodyStr).toContain('Content-Type: image/jpeg');
+			});
+
+			it('should fill a missing mimeType and extension from the magic bytes', async () => {
+				const mock = createMockExecuteFunctions({
+					binaryFileName: undefined,
+					binaryMimeType: undefined,
+					inputBuffer: createGif(10, 10),
+				});
+
+				await node.execute.call(mock);
+
+				const calls = (mock as unknown as { _httpRequestCalls: IHttpRequestOptions[] })._httpRequestCalls;
+				const bodyStr = getFormBodyStr(calls[0]);
+				expect(bodyStr).toContain('filename="image.gif"');
+				expect(bodyStr).toContain('Content-Type: image/gif');
+			});
+
+			it('should keep an extension that already matches the format', async () => {
+				const mock = createMockExecuteFunctions({
+					binaryFileName: 'photo.jpeg',
+					inputBuffer: createJpeg(100, 100),
+				});
+
+				await node.execute.call(mock);
+
+				const calls = (mock as unknown as { _httpRequestCalls: IHttpRequestOptions[] })._httpRequestCalls;
+				expect(getFormBodyStr(calls[0])).toContain('filename="photo.jpeg"');
+			});
+
+			it('should reject files that are not images before any request', async () => {
 				const mock = createMockExecuteFunctions({
 					continueOnFail: true,
-					assertBinaryDataFail: true,
+					binaryFileName: 'invoice.png',
+					inputBuffer: Buffer.from('%PDF-1.7\n%âãÏÓ\n'),
 				});
 
 				const result = await node.execute.call(mock);
 
-				expect(result[0]).toHaveLength(1);
 				expect(result[0][0].json).toEqual({
-					error: 'No binary data found',
+					error: 'The input file is not a recognized image',
+					code: 'UNSUPPORTED_IMAGE',
+				});
+				expect(mock.helpers.httpRequestWithAuthentication).not.toHaveBeenCalled();
+			});
+
+			it('should reject image formats the API does not accept', async () => {
+				const mock = createMockExecuteFunctions({
+					continueOnFail: true,
+					inputBuffer: Buffer.from('II*\0 tiff data'),
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].json).toEqual({
+					error: 'TIFF images are not supported by UpscaleIMG',
+					code: 'UNSUPPORTED_IMAGE',
+				});
+				expect(mock.helpers.httpRequestWithAuthentication).not.toHaveBeenCalled();
+			});
+
+			it('should reject truncated images before any request', async () => {
+				const mock = createMockExecuteFunctions({
+					continueOnFail: true,
+					inputBuffer: FAKE_PNG.subarray(0, 40),
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].json).toEqual({
+					error: 'The input image is truncated or corrupt',
+					code: 'CORRUPT_IMAGE',
 				});
+				expect(mock.helpers.httpRequestWithAuthentication).not.toHaveBeenCalled();
 			});
+
+			it('should validate images downloaded from a URL', async () => {
+				const mock = createMockExecuteFunctions({
+					continueOnFail: true,
+					params: {
+						inputSource: 'url',
+						imageUrl: 'https://cdn.example.com/missing.jpg',
+						urlHandling: 'download',
+					},
+					inputBuffer: Buffer.from('<html>Not Found</html>'),
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].json.code).toBe('UNSUPPORTED_IMAGE');
+				expect(mock.helpers.httpRequestWithAuthentication).not.toHaveBeenCalled();
+			});
+		});
+
+		describe('multiple binary properties', () => {
+			const ATTACHMENTS: INodeExecutionData = {
+				json: {},
+				binary: {
+					attachment_0: { data: '', mimeType: 'image/png', fileName: 'front.png' },
+					attachment_1: { data: '', mimeType: 'application/pdf', fileName: 'invoice.pdf' },
+					attachment_2: { data: '', mimeType: 'image/jpeg', fileName: 'back.jpg' },
+					logo: { data: '', mimeType: 'image/png', fileName: 'logo.png' },
+				},
+			};
+			const BUFFERS = {
+				attachment_0: createPng(100, 100),
+				attachment_1: Buffer.from('%PDF-1.7'),
+				attachment_2: createJpeg(100, 100),
+				logo: createPng(100, 100),
+			};
+
+			it('should upscale a comma-separated list of properties', async () => {
+				const mock = createMockExecuteFunctions({
+					params: { binaryPropertyName: 'attachment_0, logo' },
+					items: [ATTACHMENTS],
+					binaryBuffers: BUFFERS,
+				});
+
+				const result = await node.execute.call(mock);
+				const item = result[0][0];
+
+				expect(Object.keys(item.json)).toEqual(['attachment_0', 'logo']);
+				expect((item.json.attachment_0 as IDataObject).original).toEqual(API_RESPONSE.original);
+				expect(Object.keys(item.binary ?? {})).toEqual(['attachment_0_upscaled', 'logo_upscaled']);
+				expect(mock.helpers.httpRequestWithAuthentication).toHaveBeenCalledTimes(2);
+			});
+
+			it('should upscale only the image binaries that match a wildcard', async () => {
+				const mock = createMockExecuteFunctions({
+					params: { binaryPropertyName: 'attachment_*' },
+					items: [ATTACHMENTS],
+					binaryBuffers: BUFFERS,
+				});
+
+				const result = await node.execute.call(mock);
+				const item = result[0][0];
+
+				expect(Object.keys(item.json)).toEqual(['attachment_0', 'attachment_2']);
+				expect(Object.keys(item.binary ?? {})).toEqual([
+					'attachment_0_upscaled',
+					'attachment_2_upscaled',
+				]);
+
+				const calls = (mock as unknown as { _httpRequestCalls: IHttpRequestOptions[] })._httpRequestCalls;
+				expect(getFormBodyStr(calls[0])).toContain('filename="front.png"');
+				expect(getFormBodyStr(calls[2])).toContain('filename="back.jpg"');
+			});
+
+			it('should leave images in unsupported formats alone with a wildcard', async () => {
+				const tiff = Buffer.concat([Buffer.from('II*\0', 'latin1'), Buffer.alloc(64)]);
+				const mock = createMockExecuteFunctions({
+					params: { binaryPropertyName: '*' },
+					items: [
+						{
+							json: {},
+							binary: {
+								scan: { data: '', mimeType: 'image/tiff', fileName: 'scan.tiff' },
+								photo: { data: '', mimeType: 'image/png', fileName: 'photo.png' },
+							},
+						},
+					],
+					binaryBuffers: { scan: tiff, photo: FAKE_PNG },
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(Object.keys(result[0][0].json)).toEqual(['photo']);
+				expect(Object.keys(result[0][0].binary ?? {})).toEqual(['photo_upscaled']);
+			});
+
+			it('should upscale all image binaries with "*" and a custom suffix', async () => {
+				const mock = createMockExecuteFunctions({
+					params: { binaryPropertyName: '*', options: { outputBinarySuffix: '@2x' } },
+					items: [ATTACHMENTS],
+					binaryBuffers: BUFFERS,
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(Object.keys(result[0][0].binary ?? {})).toEqual([
+					'attachment_0@2x',
+					'attachment_2@2x',
+					'logo@2x',
+				]);
+			});
+
+			it('should key URL-only results by field name without binary output', async () => {
+				const mock = createMockExecuteFunctions({
+					params: { binaryPropertyName: 'attachment_0,logo', options: { outputMode: 'url' } },
+					items: [ATTACHMENTS],
+					binaryBuffers: BUFFERS,
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(((result[0][0].json.logo as IDataObject).result as IDataObject).url).toBe(
+					API_RESPONSE.result.url,
+				);
+				expect(result[0][0].binary).toBeUndefined();
+			});
+
+			it('should fail when a listed property is missing', async () => {
+				const mock = createMockExecuteFunctions({
+					continueOnFail: true,
+					params: { binaryPropertyName: 'attachment_0,missing' },
+					items: [ATTACHMENTS],
+					binaryBuffers: BUFFERS,
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].json.error).toBe('No binary data found');
+			});
+
+			it('should fail when no property matches the wildcard', async () => {
+				const mock = createMockExecuteFunctions({
+					continueOnFail: true,
+					params: { binaryPropertyName: 'photo_*' },
+					items: [ATTACHMENTS],
+					binaryBuffers: BUFFERS,
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].json).toEqual({
+					error: 'No image binary properties match "photo_*"',
+					code: 'INVALID_INPUT',
+				});
+				expect(mock.helpers.httpRequestWithAuthentication).not.toHaveBeenCalled();
+			});
+		});
+
+		describe('input data', () => {
+			const SOURCE = { data: '', mimeType: 'image/png', fileName: 'photo.png' };
+			const MANUAL = { data: '', mimeType: 'application/pdf', fileName: 'manual.pdf' };
+			const INPUT_ITEM: INodeExecutionData = {
+				json: { sku: 'A-100', orderId: 42, result: 'overwritten' },
+				binary: { data: SOURCE, manual: MANUAL },
+			};
+
+			it('should drop input JSON and binaries by default', async () => {
+				const mock = createMockExecuteFunctions({ items: [INPUT_ITEM] });
+
+				const result = await node.execute.call(mock);
+
+				expect(Object.keys(result[0][0].json)).toEqual(['original', 'result']);
+				expect(Object.keys(result[0][0].binary ?? {})).toEqual(['data']);
+			});
+
+			it('should merge the input JSON with the upscale results', async () => {
+				const mock = createMockExecuteFunctions({
+					params: { options: { keepInputJson: 'merge' } },
+					items: [INPUT_ITEM],
+				});
+
+				const result = await node.execute.call(mock);
+				const json = result[0][0].json;
+
+				expect(json.sku).toBe('A-100');
+				expect(json.orderId).toBe(42);
+				expect(json.original).toEqual(API_RESPONSE.original);
+				expect((json.result as IDataObject).width).toBe(API_RESPONSE.result.width);
+			});
+
+			it('should nest the input JSON under a configurable key', async () => {
+				const mock = createMockExecuteFunctions({
+					params: { options: { keepInputJson: 'nest', inputJsonKey: 'source' } },
+					items: [INPUT_ITEM],
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].json.source).toEqual(INPUT_ITEM.json);
+				expect(result[0][0].json.original).toEqual(API_RESPONSE.original);
+			});
+
+			it('should keep other input binaries but not the source image', async () => {
+				const mock = createMockExecuteFunctions({
+					params: { options: { keepInputBinary: 'others', outputBinaryPropertyName: 'upscaled' } },
+					items: [INPUT_ITEM],
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].binary).toEqual({ manual: MANUAL, upscaled: MOCK_BINARY_OUTPUT });
+			});
+
+			it('should keep the source image next to the upscaled one', async () => {
+				const mock = createMockExecuteFunctions({
+					params: { options: { keepInputBinary: 'all', outputBinaryPropertyName: 'upscaled' } },
+					items: [INPUT_ITEM],
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].binary).toEqual({
+					data: SOURCE,
+					manual: MANUAL,
+					upscaled: MOCK_BINARY_OUTPUT,
+				});
+			});
+
+			it('should rename the source image when it shares its name with the output', async () => {
+				const mock = createMockExecuteFunctions({
+					params: { options: { keepInputBinary: 'all' } },
+					items: [INPUT_ITEM],
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].binary).toEqual({
+					data_original: SOURCE,
+					manual: MANUAL,
+					data: MOCK_BINARY_OUTPUT,
+				});
+			});
+
+			it('should keep input data on items that were skipped', async () => {
+				const mock = createMockExecuteFunctions({
+					params: {
+						options: {
+							keepInputJson: 'merge',
+							keepInputBinary: 'others',
+							skipIfAtLeast: { threshold: { criterion: 'megapixels', minMegapixels: 0.001 } },
+						},
+					},
+					items: [INPUT_ITEM],
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].json.skipped).toBe(true);
+				expect(result[0][0].json.sku).toBe('A-100');
+				expect(result[0][0].binary).toEqual({ manual: MANUAL, data: SOURCE });
+			});
+		});
+
+		describe('skip if at least', () => {
+			const LARGE_JPEG = createJpeg(3000, 2000);
+
+			it('should pass images that meet the dimension threshold through unchanged', async () => {
+				const inputBinary = { data: 'abc', mimeType: 'image/jpeg', fileName: 'big.jpg' };
+				const mock = createMockExecuteFunctions({
+					params: {
+						options: {
+							skipIfAtLeast: { threshold: { criterion: 'dimensions', minWidth: 2000, minHeight: 2000 } },
+						},
+					},
+					items: [{ json: {}, binary: { data: inputBinary } }],
+					inputBuffer: LARGE_JPEG,
+				});
+
+				const result = await node.execute.call(mock);
+				const item = result[0][0];
+
+				const original = {
+					size: LARGE_JPEG.length,
+					width: 3000,
+					height: 2000,
+					mimeType: 'image/jpeg',
+					fileExt: 'jpg',
+				};
+				expect(item.json).toEqual({ skipped: true, original, result: original });
+				expect(item.binary?.data).toBe(inputBinary);
+				expect(item.pairedItem).toEqual({ item: 0 });
+				expect(mock.helpers.httpRequestWithAuthentication).not.toHaveBeenCalled();
+				expect(mock.helpers.httpRequest).not.toHaveBeenCalled();
+			});
+
+			it('should copy the passed-through image to the output binary field', async () => {
+				const inputBinary = { data: 'abc', mimeType: 'image/jpeg', fileName: 'big.jpg' };
+				const mock = createMockExecuteFunctions({
+					params: {
+						options: {
+							outputBinaryPropertyName: 'upscaled',
+							skipIfAtLeast: { threshold: { criterion: 'megapixels', minMegapixels: 6 } },
+						},
+					},
+					items: [{ json: {}, binary: { data: inputBinary } }],
+					inputBuffer: LARGE_JPEG,
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].json.skipped).toBe(true);
+				expect(result[0][0].binary).toEqual({ upscaled: inputBinary });
+			});
+
+			it('should upscale images below the threshold', async () => {
+				const mock = createMockExecuteFunctions({
+					params: {
+						options: {
+							skipIfAtLeast: { threshold: { criterion: 'dimensions', minWidth: 2000, minHeight: 2001 } },
+						},
+					},
+					inputBuffer: LARGE_JPEG,
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].json.skipped).toBeUndefined();
+				expect(mock.helpers.httpRequestWithAuthentication).toHaveBeenCalledTimes(1);
+			});
+
+			it('should upscale images below the megapixel threshold', async () => {
+				const mock = createMockExecuteFunctions({
+					params: {
+						options: {
+							skipIfAtLeast: { threshold: { criterion: 'megapixels', minMegapixels: 6.01 } },
+						},
+					},
+					inputBuffer: LARGE_JPEG,
+				});
+
+				await node.execute.call(mock);
+
+				expect(mock.helpers.httpRequestWithAuthentication).toHaveBeenCalledTimes(1);
+			});
+
+			it('should store images fetched from a URL as binary when skipping them', async () => {
+				const mock = createMockExecuteFunctions({
+					params: {
+						inputSource: 'url',
+						imageUrl: 'https://cdn.example.com/big.jpg',
+						urlHandling: 'download',
+						options: {
+							skipIfAtLeast: { threshold: { criterion: 'megapixels', minMegapixels: 1 } },
+						},
+					},
+					items: [{ json: {} }],
+					inputBuffer: LARGE_JPEG,
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].json.skipped).toBe(true);
+				expect(mock.helpers.prepareBinaryData).toHaveBeenCalledWith(LARGE_JPEG, 'big.jpg', 'image/jpeg');
+				expect(mock.helpers.httpRequestWithAuthentication).not.toHaveBeenCalled();
+			});
+		});
+
+		describe('concurrency', () => {
+			function createItems(count: number): INodeExecutionData[] {
+				return Array.from({ length: count }, (_, n) => ({
+					json: {},
+					binary: { data: { data: '', mimeType: 'image/png', fileName: `${n}.png` } },
+				}));
+			}
+
+			it('should process items in parallel up to the concurrency limit', async () => {
+				const mock = createMockExecuteFunctions({
+					params: { options: { concurrency: 3, outputMode: 'url' } },
+					items: createItems(7),
+				});
+
+				let inFlight = 0;
+				let maxInFlight = 0;
+				(mock.helpers.httpRequestWithAuthentication as jest.Mock).mockImplementation(async () => {
+					inFlight++;
+					maxInFlight = Math.max(maxInFlight, inFlight);
+					await new Promise((resolve) => setTimeout(resolve, 5));
+					inFlight--;
+					return API_RESPONSE;
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0]).toHaveLength(7);
+				expect(maxInFlight).toBe(3);
+			});
+
+			it('should keep output order and pairedItem stable when items finish out of order', async () => {
+				const mock = createMockExecuteFunctions({
+					params: { options: { concurrency: 4, outputMode: 'url' } },
+					items: createItems(4),
+				});
+
+				const delays = [20, 1, 10, 5];
+				let call = 0;
+				(mock.helpers.httpRequestWithAuthentication as jest.Mock).mockImplementation(async () => {
+					const n = call++;
+					await new Promise((resolve) => setTimeout(resolve, delays[n]));
+					return { ...API_RESPONSE, original: { ...API_RESPONSE.original, size: n } };
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0].map((item) => item.pairedItem)).toEqual([
+					{ item: 0 },
+					{ item: 1 },
+					{ item: 2 },
+					{ item: 3 },
+				]);
+				expect(result[0].map((item) => (item.json.original as IDataObject).size)).toEqual([
+					0, 1, 2, 3,
+				]);
+			});
+
+			it('should apply continueOnFail per item when running in parallel', async () => {
+				const mock = createMockExecuteFunctions({
+					continueOnFail: true,
+					params: { options: { concurrency: 2, outputMode: 'url' } },
+					items: createItems(3),
+				});
+
+				let call = 0;
+				(mock.helpers.httpRequestWithAuthentication as jest.Mock).mockImplementation(async () => {
+					if (call++ === 1) {
+						throw new Error('Item failed');
+					}
+					return API_RESPONSE;
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0]).toHaveLength(3);
+				expect(result[0][0].json.result).toBeDefined();
+				expect(result[0][1].json).toEqual({ error: 'Item failed', code: 'API_ERROR' });
+				expect(result[0][1].pairedItem).toEqual({ item: 1 });
+				expect(result[0][2].json.result).toBeDefined();
+			});
+
+			it('should stop scheduling new items after a failure without continueOnFail', async () => {
+				const mock = createMockExecuteFunctions({
+					params: { options: { concurrency: 2, outputMode: 'url' } },
+					items: createItems(6),
+				});
+
+				(mock.helpers.httpRequestWithAuthentication as jest.Mock).mockImplementation(async () => {
+					throw new Error('API request failed');
+				});
+
+				await expect(node.execute.call(mock)).rejects.toThrow(NodeApiError);
+				expect(mock.helpers.httpRequestWithAuthentication).toHaveBeenCalledTimes(2);
+			});
+
+			it('should let the items in flight finish before failing the execution', async () => {
+				const mock = createMockExecuteFunctions({
+					params: { options: { concurrency: 3 } },
+					items: createItems(6),
+				});
+
+				let call = 0;
+				(mock.helpers.httpRequestWithAuthentication as jest.Mock).mockImplementation(async () => {
+					if (call++ === 0) {
+						throw new Error('API request failed');
+					}
+					await new Promise((resolve) => setTimeout(resolve, 5));
+					return API_RESPONSE;
+				});
+
+				await expect(node.execute.call(mock)).rejects.toThrow(NodeApiError);
+				const writes = (mock.helpers.prepareBinaryData as jest.Mock).mock.calls.length;
+				await new Promise((resolve) => setTimeout(resolve, 20));
+
+				expect(writes).toBe(2);
+				expect(mock.helpers.prepareBinaryData).toHaveBeenCalledTimes(writes);
+				expect(mock.helpers.httpRequestWithAuthentication).toHaveBeenCalledTimes(3);
+			});
+		});
+
+		describe('retries', () => {
+			const RETRY = { settings: { maxAttempts: 3, baseDelay: 1, maxDelay: 5 } };
+
+			function httpError(status: number, headers: IDataObject = {}): Error {
+				return Object.assign(new Error(`Request failed with status code ${status}`), {
+					httpCode: String(status),
+					response: { status, headers },
+				});
+			}
+
+			it('should retry the upscale request on 429 and record the attempts', async () => {
+				const mock = createMockExecuteFunctions({
+					params: { options: { retry: RETRY } },
+				});
+
+				const bodies: string[] = [];
+				let call = 0;
+				(mock.helpers.httpRequestWithAuthentication as jest.Mock).mockImplementation(
+					async (_type: string, options: IHttpRequestOptions) => {
+						bodies.push(getFormBodyStr(options));
+						if (call++ === 0) {
+							throw httpError(429, { 'retry-after': '0' });
+						}
+						return API_RESPONSE;
+					},
+				);
+
+				const result = await node.execute.call(mock);
+
+				expect(mock.helpers.httpRequestWithAuthentication).toHaveBeenCalledTimes(2);
+				expect(bodies[1]).toContain('name="image"');
+				expect(result[0][0].json.attempts).toEqual({ upscale: 2, download: 1 });
+				expect(result[0][0].binary?.data).toEqual(MOCK_BINARY_OUTPUT);
+			});
+
+			it('should cap the Retry-After delay at the max delay', async () => {
+				(sleep as jest.Mock).mockClear();
+				const mock = createMockExecuteFunctions({
+					params: { options: { retry: RETRY } },
+				});
+				(mock.helpers.httpRequestWithAuthentication as jest.Mock)
+					.mockRejectedValueOnce(httpError(429, { 'retry-after': '86400' }))
+					.mockResolvedValueOnce(API_RESPONSE);
+
+				const result = await node.execute.call(mock);
+
+				expect(sleep).toHaveBeenCalledTimes(1);
+				expect(sleep).toHaveBeenCalledWith(5);
+				expect(result[0][0].json.attempts).toEqual({ upscale: 2, download: 1 });
+			});
+
+			it('should retry the signed-URL download on 5xx', async () => {
+				const mock = createMockExecuteFunctions({
+					params: { options: { retry: RETRY } },
+				});
+
+				let call = 0;
+				(mock.helpers.httpRequest as jest.Mock).mockImplementation(async () => {
+					if (call++ < 2) {
+						throw httpError(503);
+					}
+					return Readable.from([DOWNLOADED_IMAGE]);
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(mock.helpers.httpRequest).toHaveBeenCalledTimes(3);
+				expect(result[0][0].json.attempts).toEqual({ upscale: 1, download: 3 });
+			});
+
+			it('should give up after maxAttempts', async () => {
+				const mock = createMockExecuteFunctions({
+					continueOnFail: true,
+					params: { options: { retry: RETRY } },
+				});
+
+				(mock.helpers.httpRequestWithAuthentication as jest.Mock).mockImplementation(async () => {
+					throw httpError(502);
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(mock.helpers.httpRequestWithAuthentication).toHaveBeenCalledTimes(3);
+				expect(result[0][0].json).toEqual({
+					error: 'The UpscaleIMG API had an internal error',
+					code: 'SERVER_ERROR',
+					statusCode: 502,
+				});
+			});
+
+			it('should not retry status codes that are not selected', async () => {
+				const mock = createMockExecuteFunctions({
+					continueOnFail: true,
+					params: {
+						options: { retry: { settings: { ...RETRY.settings, retryOnStatusCodes: [503] } } },
+					},
+				});
+
+				(mock.helpers.httpRequestWithAuthentication as jest.Mock).mockImplementation(async () => {
+					throw httpError(429);
+				});
+
+				await node.execute.call(mock);
+
+				expect(mock.helpers.httpRequestWithAuthentication).toHaveBeenCalledTimes(1);
+			});
+
+			it('should retry network errors', async () => {
+				const mock = createMockExecuteFunctions({
+					params: { options: { retry: RETRY } },
+				});
+
+				let call = 0;
+				(mock.helpers.httpRequestWithAuthentication as jest.Mock).mockImplementation(async () => {
+					if (call++ === 0) {
+						throw Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+					}
+					return API_RESPONSE;
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].json.attempts).toEqual({ upscale: 2, download: 1 });
+			});
+
+			it('should try once and not record attempts when retries are not configured', async () => {
+				const mock = createMockExecuteFunctions({ continueOnFail: true });
+
+				(mock.helpers.httpRequestWithAuthentication as jest.Mock).mockImplementation(async () => {
+					throw httpError(429);
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(mock.helpers.httpRequestWithAuthentication).toHaveBeenCalledTimes(1);
+				expect(result[0][0].json.attempts).toBeUndefined();
+			});
+		});
+
+		describe('limits', () => {
+			const INPUT_BINARY = { data: '', mimeType: 'image/png', fileName: 'photo.png' };
+			const ITEMS: INodeExecutionData[] = [0, 1, 2].map(() => ({
+				json: {},
+				binary: { data: INPUT_BINARY },
+			}));
+
+			function limits(settings: IDataObject): IDataObject {
+				return { limits: { settings } };
+			}
+
+			it('should stop the execution once Max Images is reached', async () => {
+				const mock = createMockExecuteFunctions({
+					items: ITEMS,
+					continueOnFail: true,
+					params: { options: limits({ maxImages: 2 }) },
+				});
+
+				await expect(node.execute.call(mock)).rejects.toMatchObject({
+					message: 'Max Images per Execution (2) reached',
+					context: expect.objectContaining({ code: 'LIMIT_REACHED', itemIndex: 2 }),
+				});
+				expect(mock.helpers.httpRequestWithAuthentication).toHaveBeenCalledTimes(2);
+			});
+
+			it('should skip and flag the remaining items when configured', async () => {
+				const mock = createMockExecuteFunctions({
+					items: ITEMS,
+					params: { options: limits({ maxImages: 1, onLimit: 'skip' }) },
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0]).toHaveLength(3);
+				expect(result[0][0].json.result).toBeDefined();
+				expect(result[0][1].json).toEqual({ skipped: true, limitReached: 'maxImages' });
+				expect(result[0][1].binary).toEqual({ data: INPUT_BINARY });
+				expect(result[0][2].json.limitReached).toBe('maxImages');
+				expect(mock.helpers.httpRequestWithAuthentication).toHaveBeenCalledTimes(1);
+			});
+
+			it('should not count images whose upscale failed', async () => {
+				const mock = createMockExecuteFunctions({
+					items: ITEMS,
+					continueOnFail: true,
+					params: { options: limits({ maxImages: 2 }) },
+				});
+				(mock.helpers.httpRequestWithAuthentication as jest.Mock).mockRejectedValueOnce({
+					httpCode: '500',
+					message: 'Internal Server Error',
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0].map((item) => item.json.code)).toEqual([
+					'SERVER_ERROR',
+					undefined,
+					undefined,
+				]);
+				expect(mock.helpers.httpRequestWithAuthentication).toHaveBeenCalledTimes(3);
+			});
+
+			it('should not send an image whose planned output exceeds Max Total Output Megapixels', async () => {
+				// Every image is planned and upscaled at 200x200, i.e. 0.04 megapixels
+				const mock = createMockExecuteFunctions({
+					items: ITEMS,
+					params: { options: limits({ maxImages: 0, maxMegapixels: 0.05, onLimit: 'skip' }) },
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0].map((item) => item.json.limitReached)).toEqual([
+					undefined,
+					'maxMegapixels',
+					'maxMegapixels',
+				]);
+				expect(mock.helpers.httpRequestWithAuthentication).toHaveBeenCalledTimes(1);
+			});
+
+			it('should reject a single upscale that is larger than Max Total Output Megapixels', async () => {
+				// 4x of the 100x100 input is 0.16 megapixels
+				const mock = createMockExecuteFunctions({
+					params: { scale: 4, options: limits({ maxMegapixels: 0.1 }) },
+				});
+
+				await expect(node.execute.call(mock)).rejects.toMatchObject({
+					message: 'Max Total Output Megapixels (0.1) reached',
+				});
+				expect(mock.helpers.httpRequestWithAuthentication).not.toHaveBeenCalled();
+			});
+
+			it('should count the planned size of items in flight', async () => {
+				const mock = createMockExecuteFunctions({
+					items: ITEMS,
+					params: {
+						options: {
+							concurrency: 3,
+							...limits({ maxImages: 0, maxMegapixels: 0.1, onLimit: 'skip' }),
+						},
+					},
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0].map((item) => item.json.limitReached)).toEqual([
+					undefined,
+					undefined,
+					'maxMegapixels',
+				]);
+				expect(mock.helpers.httpRequestWithAuthentication).toHaveBeenCalledTimes(2);
+			});
+
+			it('should not upscale input files above Max Input File Size', async () => {
+				const mock = createMockExecuteFunctions({
+					// 2 MB of padding before the IEND chunk, which the completeness check looks for
+					inputBuffer: Buffer.concat([
+						FAKE_PNG.subarray(0, -12),
+						Buffer.alloc(2 * 1024 * 1024),
+						FAKE_PNG.subarray(-12),
+					]),
+					params: { options: limits({ maxFileSize: 1 }) },
+				});
+
+				await expect(node.execute.call(mock)).rejects.toMatchObject({
+					message: 'Max Input File Size (1 MB) reached',
+				});
+				expect(mock.helpers.httpRequestWithAuthentication).not.toHaveBeenCalled();
+			});
+
+			it('should not count cached results', async () => {
+				const staticData: IDataObject = {};
+				const options = { cache: { settings: {} }, ...limits({ maxImages: 1 }) };
+				await node.execute.call(createMockExecuteFunctions({ staticData, params: { options } }));
+				const mock = createMockExecuteFunctions({ items: ITEMS, staticData, params: { options } });
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0].map((item) => item.json.cached)).toEqual([true, true, true]);
+				expect(mock.helpers.httpRequestWithAuthentication).not.toHaveBeenCalled();
+			});
+		});
+
+		describe('dry run', () => {
+			function expectNoRequests(mock: IExecuteFunctions): void {
+				expect(mock.helpers.httpRequestWithAuthentication).not.toHaveBeenCalled();
+				expect(mock.helpers.httpRequest).not.toHaveBeenCalled();
+				expect(mock.getCredentials).not.toHaveBeenCalled();
+			}
+
+			it('should return the planned output and pass the input binary through', async () => {
+				const items = [
+					{
+						json: { id: 1 },
+						binary: { data: { data: '', mimeType: 'image/png', fileName: 'photo.png' } },
+					},
+				];
+				const mock = createMockExecuteFunctions({
+					items,
+					params: { scale: 4, options: { dryRun: true } },
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].json).toEqual({
+					dryRun: true,
+					skipped: false,
+					original: {
+						size: FAKE_PNG.length,
+						width: 100,
+						height: 100,
+						mimeType: 'image/png',
+						fileExt: 'png',
+					},
+					result: {
+						width: 400,
+						height: 400,
+						mimeType: 'image/png',
+						fileExt: 'png',
+						fileName: 'photo_upscaled.png',
+						// Same format as the input, so its bytes per pixel are kept
+						estimatedSize: FAKE_PNG.length * 16,
+					},
+				});
+				expect(result[0][0].binary).toEqual(items[0].binary);
+				expectNoRequests(mock);
+			});
+
+			it('should estimate each format from the resolved dimensions', async () => {
+				const mock = createMockExecuteFunctions({
+					params: {
+						resizeMode: 'fitWidth',
+						customWidth: 1000,
+						options: {
+							dryRun: true,
+							outputFormat: 'webp',
+							additionalFormats: ['jpg'],
+							outputFileName: '{name}_{width}x{height}.{ext}',
+						},
+					},
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].json.result).toEqual({
+					width: 1000,
+					height: 1000,
+					mimeType: 'image/webp',
+					fileExt: 'webp',
+					fileName: 'photo_1000x1000.webp',
+					estimatedSize: 150000,
+				});
+				expect(result[0][0].json.formats).toEqual({
+					jpg: expect.objectContaining({ fileName: 'photo_1000x1000.jpg', estimatedSize: 250000 }),
+				});
+				expectNoRequests(mock);
+			});
+
+			it('should report images that would be skipped', async () => {
+				const mock = createMockExecuteFunctions({
+					params: {
+						options: {
+							dryRun: true,
+							skipIfAtLeast: { threshold: { criterion: 'dimensions', minWidth: 50, minHeight: 50 } },
+						},
+					},
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].json).toMatchObject({ skipped: true, skipReason: 'skipIfAtLeast' });
+				expectNoRequests(mock);
+			});
+
+			it('should apply the limits without failing', async () => {
+				const mock = createMockExecuteFunctions({
+					items: [0, 1].map(() => ({
+						json: {},
+						binary: { data: { data: '', mimeType: 'image/png', fileName: 'photo.png' } },
+					})),
+					params: { options: { dryRun: true, limits: { settings: { maxImages: 1 } } } },
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0].map((item) => item.json.limitReached)).toEqual([undefined, 'maxImages']);
+				expect(result[0][1].json.skipped).toBe(false);
+			});
+
+			it('should not download image URLs', async () => {
+				const mock = createMockExecuteFunctions({
+					params: {
+						inputSource: 'url',
+						imageUrl: 'https://example.com/images/cat.jpg',
+						urlHandling: 'download',
+						options: { dryRun: true },
+					},
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].json.original).toBeUndefined();
+				expect(result[0][0].json.result).toEqual({
+					mimeType: 'image/png',
+					fileExt: 'png',
+					fileName: 'cat_upscaled.png',
+					estimatedSize: undefined,
+				});
+				expectNoRequests(mock);
+			});
+
+			it('should leave the size unknown when a downloaded URL is fitted', async () => {
+				const mock = createMockExecuteFunctions({
+					params: {
+						inputSource: 'url',
+						imageUrl: 'https://example.com/images/cat.jpg',
+						urlHandling: 'download',
+						resizeMode: 'fitWidth',
+						customWidth: 1000,
+						options: { dryRun: true },
+					},
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].json).toMatchObject({
+					dimensionsUnknownReason: expect.stringContaining('not downloaded in a dry run'),
+					result: { mimeType: 'image/png', fileName: 'cat_upscaled.png' },
+				});
+				expect(result[0][0].json.result).not.toHaveProperty('width');
+				expectNoRequests(mock);
+			});
+
+			it('should still fail to fit a URL that is sent to the API', async () => {
+				const mock = createMockExecuteFunctions({
+					params: {
+						inputSource: 'url',
+						imageUrl: 'https://example.com/images/cat.jpg',
+						urlHandling: 'passUrl',
+						resizeMode: 'fitWidth',
+						customWidth: 1000,
+						options: { dryRun: true },
+					},
+				});
+
+				await expect(node.execute.call(mock)).rejects.toThrow(
+					'Could not read the dimensions of the input image',
+				);
+			});
+		});
+
+		describe('additional output formats', () => {
+			const JPEG_RESULT = createJpeg(200, 200);
+			const CONVERT_RESPONSE = {
+				original: { ...API_RESPONSE.original },
+				result: {
+					size: JPEG_RESULT.length,
+					width: 200,
+					height: 200,
+					mimeType: 'image/jpeg',
+					fileExt: 'jpg',
+					url: 'https://s3.example.com/upscaled.jpg?signed=1',
+				},
+			};
+
+			function mockConversions(mock: IExecuteFunctions): void {
+				(mock.helpers.httpRequestWithAuthentication as jest.Mock).mockImplementation(
+					async (_credentialsType: string, options: IHttpRequestOptions) =>
+						options.url.endsWith('/convert') ? CONVERT_RESPONSE : API_RESPONSE,
+				);
+				(mock.helpers.httpRequest as jest.Mock).mockImplementation(
+					async (options: IHttpRequestOptions) =>
+						Readable.from([
+							options.url === CONVERT_RESPONSE.result.url ? JPEG_RESULT : DOWNLOADED_IMAGE,
+						]),
+				);
+			}
+
+			function getApiCalls(mock: IExecuteFunctions): IHttpRequestOptions[] {
+				return (mock.helpers.httpRequestWithAuthentication as jest.Mock).mock.calls.map(
+					([, options]) => options as IHttpRequestOptions,
+				);
+			}
+
+			it('should upscale once and convert the result to each further format', async () => {
+				const mock = createMockExecuteFunctions({
+					params: {
+						options: { outputFormat: 'webp', additionalFormats: ['jpg', 'webp'], quality: 80 },
+					},
+				});
+				mockConversions(mock);
+
+				const result = await node.execute.call(mock);
+				const item = result[0][0];
+
+				const calls = getApiCalls(mock);
+				expect(calls.map((call) => call.url)).toEqual([
+					'https://upscaleimg.app/api/v1/upscale',
+					'https://upscaleimg.app/api/v1/convert',
+				]);
+				const convertBody = getFormBodyStr(calls[1]);
+				expect(convertBody).toContain(`name="imageUrl"\r\n\r\n${API_RESPONSE.result.url}\r\n`);
+				expect(convertBody).toContain('name="outputFormat"\r\n\r\njpg\r\n');
+				expect(convertBody).toContain('name="quality"\r\n\r\n80\r\n');
+
+				expect(item.json.formats).toEqual({
+					jpg: {
+						size: JPEG_RESULT.length,
+						width: 200,
+						height: 200,
+						mimeType: 'image/jpeg',
+						fileExt: 'jpg',
+					},
+				});
+				expect(Object.keys(item.binary ?? {})).toEqual(['data', 'data_jpg']);
+				expect(mock.helpers.prepareBinaryData).toHaveBeenLastCalledWith(
+					expect.any(Readable),
+					'photo_upscaled.jpg',
+					'image/jpeg',
+				);
+			});
+
+			it('should apply the quality to a lossy fallback of PNG output', async () => {
+				const mock = createMockExecuteFunctions({
+					params: { options: { outputFormat: 'png', additionalFormats: ['jpg'], quality: 70 } },
+				});
+				mockConversions(mock);
+
+				await node.execute.call(mock);
+
+				const calls = getApiCalls(mock);
+				expect(getFormBodyStr(calls[0])).not.toContain('name="quality"');
+				expect(getFormBodyStr(calls[1])).toContain('name="quality"\r\n\r\n70\r\n');
+			});
+
+			it('should return the URL of each format without downloading in url mode', async () => {
+				const mock = createMockExecuteFunctions({
+					params: { options: { outputMode: 'url', additionalFormats: ['jpg'] } },
+				});
+				mockConversions(mock);
+
+				const result = await node.execute.call(mock);
+
+				expect((result[0][0].json.formats as IDataObject).jpg).toEqual(
+					expect.objectContaining({ url: CONVERT_RESPONSE.result.url }),
+				);
+				expect(result[0][0].binary).toBeUndefined();
+				expect(mock.helpers.httpRequest).not.toHaveBeenCalled();
+			});
+
+			it('should name the format properties after each upscaled property', async () => {
+				const mock = createMockExecuteFunctions({
+					params: { binaryPropertyName: 'front, back', options: { additionalFormats: ['jpg'] } },
+					items: [
+						{
+							json: {},
+							binary: {
+								front: { data: '', mimeType: 'image/png', fileName: 'front.png' },
+								back: { data: '', mimeType: 'image/png', fileName: 'back.png' },
+							},
+						},
+					],
+				});
+				mockConversions(mock);
+
+				const result = await node.execute.call(mock);
+
+				expect(Object.keys(result[0][0].binary ?? {})).toEqual([
+					'front_upscaled',
+					'front_upscaled_jpg',
+					'back_upscaled',
+					'back_upscaled_jpg',
+				]);
+			});
+
+			it('should fail the item when a conversion fails', async () => {
+				const mock = createMockExecuteFunctions({
+					continueOnFail: true,
+					params: { options: { additionalFormats: ['jpg'] } },
+				});
+				mockConversions(mock);
+				(mock.helpers.httpRequestWithAuthentication as jest.Mock)
+					.mockResolvedValueOnce(API_RESPONSE)
+					.mockRejectedValueOnce({ httpCode: '422', message: 'Unsupported format' });
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].json.code).toBe('INVALID_REQUEST');
+			});
+
+			describe('with the cache', () => {
+				const CACHE = { settings: { ttl: 24, maxEntries: 10, downloadOnHit: false } };
+
+				it('should reuse the cached conversions on a hit', async () => {
+					const staticData: IDataObject = {};
+					const params = { options: { cache: CACHE, additionalFormats: ['jpg'] } };
+					const first = createMockExecuteFunctions({ staticData, params });
+					mockConversions(first);
+					await node.execute.call(first);
+					const second = createMockExecuteFunctions({ staticData, params });
+
+					const result = await node.execute.call(second);
+
+					expect(getApiCalls(first)).toHaveLength(2);
+					expect(second.helpers.httpRequestWithAuthentication).not.toHaveBeenCalled();
+					expect(second.helpers.httpRequest).not.toHaveBeenCalled();
+					expect(result[0][0].json.cached).toBe(true);
+					expect((result[0][0].json.formats as IDataObject).jpg).toEqual(
+						expect.objectContaining({ url: CONVERT_RESPONSE.result.url }),
+					);
+				});
+
+				it('should convert only the formats that are not cached yet', async () => {
+					const staticData: IDataObject = {};
+					await node.execute.call(
+						createMockExecuteFunctions({ staticData, params: { options: { cache: CACHE } } }),
+					);
+					const mock = createMockExecuteFunctions({
+						staticData,
+						params: { options: { cache: CACHE, additionalFormats: ['jpg'] } },
+					});
+					mockConversions(mock);
+
+					await node.execute.call(mock);
+
+					expect(getApiCalls(mock).map((call) => call.url)).toEqual([
+						'https://upscaleimg.app/api/v1/convert',
+					]);
+				});
+
+				it('should upscale again when a cached conversion can no longer be downloaded', async () => {
+					const cache = { settings: { ...CACHE.settings, downloadOnHit: true } };
+					const staticData: IDataObject = {};
+					const params = { options: { cache, additionalFormats: ['jpg'] } };
+					const first = createMockExecuteFunctions({ staticData, params });
+					mockConversions(first);
+					await node.execute.call(first);
+					const mock = createMockExecuteFunctions({ staticData, params });
+					mockConversions(mock);
+					(mock.helpers.httpRequest as jest.Mock)
+						.mockResolvedValueOnce(Readable.from([DOWNLOADED_IMAGE]))
+						.mockRejectedValueOnce(
+							Object.assign(new Error('Request failed with status code 403'), { httpCode: '403' }),
+						);
+
+					const result = await node.execute.call(mock);
+
+					expect(getApiCalls(mock).map((call) => call.url)).toEqual([
+						'https://upscaleimg.app/api/v1/upscale',
+						'https://upscaleimg.app/api/v1/convert',
+					]);
+					expect(result[0][0].json.cached).toBeUndefined();
+					expect(Object.keys(result[0][0].binary ?? {})).toEqual(['data', 'data_jpg']);
+				});
+			});
+		});
+
+		describe('output mode', () => {
+			it('should return only the signed URL without downloading in url mode', async () => {
+				const mock = createMockExecuteFunctions({
+					params: { options: { outputMode: 'url' } },
+				});
+
+				const result = await node.execute.call(mock);
+				const item = result[0][0];
+
+				expect(item.json.result).toEqual({
+					size: API_RESPONSE.result.size,
+					width: API_RESPONSE.result.width,
+					height: API_RESPONSE.result.height,
+					mimeType: API_RESPONSE.result.mimeType,
+					fileExt: API_RESPONSE.result.fileExt,
+					url: API_RESPONSE.result.url,
+				});
+				expect(item.binary).toBeUndefined();
+				expect(item.pairedItem).toEqual({ item: 0 });
+				expect(mock.helpers.httpRequest).not.toHaveBeenCalled();
+				expect(mock.helpers.prepareBinaryData).not.toHaveBeenCalled();
+			});
+
+			it('should return both the URL and the binary in both mode', async () => {
+				const mock = createMockExecuteFunctions({
+					params: { options: { outputMode: 'both' } },
+				});
+
+				const result = await node.execute.call(mock);
+				const item = result[0][0];
+
+				expect((item.json.result as IDataObject).url).toBe(API_RESPONSE.result.url);
+				expect(item.binary?.data).toEqual(MOCK_BINARY_OUTPUT);
+				expect(mock.helpers.httpRequest).toHaveBeenCalledTimes(1);
+			});
+
+			it('should not expose the URL in binary mode', async () => {
+				const mock = createMockExecuteFunctions({
+					params: { options: { outputMode: 'binary' } },
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect((result[0][0].json.result as IDataObject).url).toBeUndefined();
+				expect(result[0][0].binary?.data).toEqual(MOCK_BINARY_OUTPUT);
+			});
+		});
+
+		describe('URL input source', () => {
+			it('should fetch the image from the URL and upload it', async () => {
+				const mock = createMockExecuteFunctions({
+					params: {
+						inputSource: 'url',
+						imageUrl: 'https://cdn.example.com/products/shoe.jpg',
+						urlHandling: 'download',
+					},
+					inputBuffer: createJpeg(100, 100),
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(mock.helpers.assertBinaryData).not.toHaveBeenCalled();
+
+				const calls = (mock as unknown as { _httpRequestCalls: IHttpRequestOptions[] })._httpRequestCalls;
+				expect(calls).toHaveLength(3);
+				expect(calls[0]).toEqual({
+					method: 'GET',
+					url: 'https://cdn.example.com/products/shoe.jpg',
+					encoding: 'arraybuffer',
+					disableFollowRedirect: true,
+				});
+
+				const bodyStr = getFormBodyStr(calls[1]);
+				expect(bodyStr).toContain('name="image"; filename="shoe.jpg"');
+				expect(bodyStr).toContain('Content-Type: image/jpeg');
+
+				expect(mock.helpers.prepareBinaryData).toHaveBeenCalledWith(
+					expect.any(Readable),
+					'shoe_upscaled.webp',
+					'image/webp',
+				);
+				expect(result[0][0].binary?.data).toEqual(MOCK_BINARY_OUTPUT);
+			});
+
+			it('should apply filename and mimeType fallbacks for URLs', async () => {
+				const mock = createMockExecuteFunctions({
+					params: {
+						inputSource: 'url',
+						imageUrl: 'https://cdn.example.com/render?id=42',
+						urlHandling: 'download',
+					},
+				});
+
+				await node.execute.call(mock);
+
+				const calls = (mock as unknown as { _httpRequestCalls: IHttpRequestOptions[] })._httpRequestCalls;
+				const bodyStr = getFormBodyStr(calls[1]);
+				expect(bodyStr).toContain('filename="image.png"');
+				expect(bodyStr).toContain('Content-Type: image/png');
+			});
+
+			it('should pass the URL to the API when urlHandling is passUrl', async () => {
+				const mock = createMockExecuteFunctions({
+					params: {
+						inputSource: 'url',
+						imageUrl: 'https://cdn.example.com/products/shoe.jpg',
+						urlHandling: 'passUrl',
+					},
+				});
+
+				await node.execute.call(mock);
+
+				const calls = (mock as unknown as { _httpRequestCalls: IHttpRequestOptions[] })._httpRequestCalls;
+				expect(calls).toHaveLength(2);
+
+				const bodyStr = getFormBodyStr(calls[0]);
+				expect(bodyStr).toContain('name="imageUrl"');
+				expect(bodyStr).toContain('\r\nhttps://cdn.example.com/products/shoe.jpg\r\n');
+				expect(bodyStr).not.toContain('name="image"');
+
+				expect(mock.helpers.prepareBinaryData).toHaveBeenCalledWith(
+					expect.any(Readable),
+					'shoe_upscaled.webp',
+					'image/webp',
+				);
+			});
+
+			it('should reject URLs that are not http(s)', async () => {
+				const mock = createMockExecuteFunctions({
+					continueOnFail: true,
+					params: { inputSource: 'url', imageUrl: 'file:///etc/passwd' },
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].json.error).toBe('Invalid image URL: "file:///etc/passwd"');
+				expect(mock.helpers.httpRequest).not.toHaveBeenCalled();
+			});
+
+			it('should not download image URLs from a private network', async () => {
+				const mock = createMockExecuteFunctions({
+					continueOnFail: true,
+					params: { inputSource: 'url', imageUrl: 'http://169.254.169.254/latest/meta-data' },
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].json).toMatchObject({
+					error: 'The image URL is not allowed',
+					code: 'INVALID_INPUT',
+				});
+				expect(mock.helpers.httpRequest).not.toHaveBeenCalled();
+			});
+
+			it('should download private image URLs when the credential allows it', async () => {
+				const mock = createMockExecuteFunctions({
+					params: { inputSource: 'url', imageUrl: 'http://192.168.1.20/photo.png' },
+					credentials: {
+						apiKey: 'test-api-key-123',
+						allowedDownloadHosts: 's3.example.com',
+						allowPrivateDownloads: true,
+					},
+				});
+
+				await node.execute.call(mock);
+
+				expect(mock.helpers.httpRequest).toHaveBeenCalledWith(
+					expect.objectContaining({ url: 'http://192.168.1.20/photo.png' }),
+				);
+			});
+
+			it.each([
+				[
+					'a status code',
+					Object.assign(new Error('Request failed with status code 404'), { httpCode: '404' }),
+					'INVALID_INPUT',
+				],
+				[
+					'a network error',
+					Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }),
+					'NETWORK_ERROR',
+				],
+			])('should map a failed image download with %s', async (_name, error, code) => {
+				const mock = createMockExecuteFunctions({
+					continueOnFail: true,
+					params: { inputSource: 'url', imageUrl: 'https://cdn.example.com/missing.png' },
+				});
+				(mock.helpers.httpRequest as jest.Mock).mockRejectedValueOnce(error);
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].json).toMatchObject({
+					error: 'Could not download the image from the URL',
+					code,
+				});
+			});
+		});
+
+		describe('async job', () => {
+			const JOB_URL = 'https://upscaleimg.app/api/v1/jobs';
+			const ASYNC_JOB = { settings: { pollInterval: 5, timeout: 60 } };
+
+			let now: number;
+
+			beforeEach(() => {
+				// Polling waits with sleep, so let every sleep advance the clock instead of waiting
+				now = 0;
+				jest.spyOn(Date, 'now').mockImplementation(() => now);
+				(sleep as jest.Mock).mockClear().mockImplementation(async (ms: number) => {
+					now += ms;
+				});
+			});
+
+			afterEach(() => {
+				jest.restoreAllMocks();
+				(sleep as jest.Mock).mockImplementation(async () => {});
+			});
+
+			function mockJobApi(mock: IExecuteFunctions, statuses: IDataObject[]): void {
+				let poll = 0;
+				(mock.helpers.httpRequestWithAuthentication as jest.Mock).mockImplementation(
+					async (_type: string, options: IHttpRequestOptions) => {
+						if (options.method === 'POST') {
+							return { jobId: 'job_123', status: 'queued' };
+						}
+						return statuses[Math.min(poll++, statuses.length - 1)];
+					},
+				);
+			}
+
+			it('should submit a job, poll until it completes and download the result', async () => {
+				const mock = createMockExecuteFunctions({
+					params: { options: { asyncJob: ASYNC_JOB } },
+				});
+				mockJobApi(mock, [
+					{ jobId: 'job_123', status: 'queued' },
+					{ jobId: 'job_123', status: 'processing' },
+					{ jobId: 'job_123', status: 'completed', ...API_RESPONSE },
+				]);
+
+				const result = await node.execute.call(mock);
+
+				const calls = (mock.helpers.httpRequestWithAuthentication as jest.Mock).mock.calls.map(
+					([, options]: [string, IHttpRequestOptions]) => `${options.method} ${options.url}`,
+				);
+				expect(calls).toEqual([
+					`POST ${JOB_URL}`,
+					`GET ${JOB_URL}/job_123`,
+					`GET ${JOB_URL}/job_123`,
+					`GET ${JOB_URL}/job_123`,
+				]);
+				expect(sleep).toHaveBeenCalledTimes(2);
+				expect(sleep).toHaveBeenCalledWith(5000);
+				expect(result[0][0].json).toEqual({
+					original: API_RESPONSE.original,
+					result: {
+						size: 30,
+						width: 200,
+						height: 200,
+						mimeType: 'image/webp',
+						fileExt: 'webp',
+					},
+					jobId: 'job_123',
+				});
+				expect(result[0][0].binary?.data).toEqual(MOCK_BINARY_OUTPUT);
+			});
+
+			it('should send the same form fields as a synchronous upscale', async () => {
+				const mock = createMockExecuteFunctions({
+					params: { scale: 4, options: { asyncJob: ASYNC_JOB, outputFormat: 'png' } },
+				});
+				mockJobApi(mock, [{ jobId: 'job_123', status: 'completed', ...API_RESPONSE }]);
+
+				await node.execute.call(mock);
+
+				const body = getFormBodyStr(
+					(mock.helpers.httpRequestWithAuthentication as jest.Mock).mock.calls[0][1],
+				);
+				expect(body).toContain('name="image"');
+				expect(body).toContain('name="scale"\r\n\r\n4');
+				expect(body).toContain('name="outputFormat"\r\n\r\npng');
+			});
+
+			it('should output the job ID without polling when not waiting for the result', async () => {
+				const mock = createMockExecuteFunctions({
+					params: {
+						options: { asyncJob: { settings: { ...ASYNC_JOB.settings, waitForResult: false } } },
+					},
+				});
+				mockJobApi(mock, []);
+
+				const result = await node.execute.call(mock);
+
+				expect(mock.helpers.httpRequestWithAuthentication).toHaveBeenCalledTimes(1);
+				expect(mock.helpers.httpRequest).not.toHaveBeenCalled();
+				expect(result[0][0].json).toEqual({ jobId: 'job_123', status: 'queued' });
+				expect(result[0][0].binary).toBeUndefined();
+			});
+
+			it('should fail with a resumable error when the job times out', async () => {
+				const mock = createMockExecuteFunctions({
+					continueOnFail: true,
+					params: { options: { asyncJob: { settings: { pollInterval: 5, timeout: 12 } } } },
+				});
+				mockJobApi(mock, [{ jobId: 'job_123', status: 'processing' }]);
+
+				const result = await node.execute.call(mock);
+
+				expect(mock.helpers.httpRequestWithAuthentication).toHaveBeenCalledTimes(4);
+				expect(mock.helpers.httpRequest).not.toHaveBeenCalled();
+				expect(result[0][0].json).toEqual({
+					error: 'UpscaleIMG job job_123 did not finish within 12 seconds',
+					code: 'JOB_TIMEOUT',
+					jobId: 'job_123',
+				});
+			});
+
+			it('should explain how to resume a timed-out job', async () => {
+				const mock = createMockExecuteFunctions({
+					params: { options: { asyncJob: { settings: { pollInterval: 5, timeout: 5 } } } },
+				});
+				mockJobApi(mock, [{ jobId: 'job_123', status: 'processing' }]);
+
+				await expect(node.execute.call(mock)).rejects.toMatchObject({
+					description: expect.stringContaining('Resume Job ID to "job_123"'),
+					context: expect.objectContaining({ jobId: 'job_123', code: 'JOB_TIMEOUT' }),
+				});
+			});
+
+			it('should poll a resumed job without submitting a new one', async () => {
+				const mock = createMockExecuteFunctions({
+					params: {
+						options: { asyncJob: { settings: { ...ASYNC_JOB.settings, resumeJobId: 'job_42' } } },
+					},
+				});
+				mockJobApi(mock, [{ jobId: 'job_42', status: 'completed', ...API_RESPONSE }]);
+
+				const result = await node.execute.call(mock);
+
+				expect(mock.helpers.httpRequestWithAuthentication).toHaveBeenCalledTimes(1);
+				expect(mock.helpers.httpRequestWithAuthentication).toHaveBeenCalledWith('upscaleImgApi', {
+					method: 'GET',
+					url: `${JOB_URL}/job_42`,
+				});
+				expect(result[0][0].json.jobId).toBe('job_42');
+				expect(result[0][0].binary?.data).toEqual(MOCK_BINARY_OUTPUT);
+			});
+
+			it('should reject resuming a job for several images', async () => {
+				const mock = createMockExecuteFunctions({
+					continueOnFail: true,
+					params: {
+						binaryPropertyName: 'data, other',
+						options: { asyncJob: { settings: { resumeJobId: 'job_42' } } },
+					},
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].json.code).toBe('INVALID_INPUT');
+				expect(mock.helpers.httpRequestWithAuthentication).not.toHaveBeenCalled();
+			});
+
+			it('should report failed jobs with the API message and the job ID', async () => {
+				const mock = createMockExecuteFunctions({
+					continueOnFail: true,
+					params: { options: { asyncJob: ASYNC_JOB } },
+				});
+				mockJobApi(mock, [
+					{ jobId: 'job_123', status: 'failed', error: { message: 'Image could not be decoded' } },
+				]);
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].json).toEqual({
+					error: 'UpscaleIMG job job_123 failed',
+					code: 'JOB_FAILED',
+					jobId: 'job_123',
+				});
+			});
+
+			it('should map polling errors and keep the job ID', async () => {
+				const mock = createMockExecuteFunctions({
+					continueOnFail: true,
+					params: { options: { asyncJob: ASYNC_JOB } },
+				});
+				(mock.helpers.httpRequestWithAuthentication as jest.Mock)
+					.mockResolvedValueOnce({ jobId: 'job_123', status: 'queued' })
+					.mockRejectedValueOnce({ message: 'Service Unavailable', httpCode: '503' });
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].json).toMatchObject({
+					code: 'SERVER_ERROR',
+					statusCode: 503,
+					jobId: 'job_123',
+				});
+			});
+
+			it('should fail when the API returns no job ID', async () => {
+				const mock = createMockExecuteFunctions({
+					continueOnFail: true,
+					params: { options: { asyncJob: ASYNC_JOB } },
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].json).toEqual({
+					error: 'UpscaleIMG did not return a job ID',
+					code: 'API_ERROR',
+				});
+			});
+		});
+
+		describe('cache', () => {
+			const CACHE = { settings: { ttl: 24, maxEntries: 10 } };
+
+			it('should reuse the stored result for an identical image and settings', async () => {
+				const staticData: IDataObject = {};
+				const first = createMockExecuteFunctions({
+					staticData,
+					params: { options: { cache: CACHE } },
+				});
+				const second = createMockExecuteFunctions({
+					staticData,
+					params: { options: { cache: CACHE } },
+				});
+
+				await node.execute.call(first);
+				const result = await node.execute.call(second);
+
+				expect(first.helpers.httpRequestWithAuthentication).toHaveBeenCalledTimes(1);
+				expect(second.helpers.httpRequestWithAuthentication).not.toHaveBeenCalled();
+				expect(second.helpers.httpRequest).toHaveBeenCalledWith(
+					expect.objectContaining({ url: API_RESPONSE.result.url }),
+				);
+				expect(result[0][0].json).toEqual({
+					original: API_RESPONSE.original,
+					result: {
+						size: 30,
+						width: 200,
+						height: 200,
+						mimeType: 'image/webp',
+						fileExt: 'webp',
+					},
+					cached: true,
+				});
+				expect(result[0][0].binary?.data).toEqual(MOCK_BINARY_OUTPUT);
+			});
+
+			it('should not flag results that were upscaled', async () => {
+				const mock = createMockExecuteFunctions({ params: { options: { cache: CACHE } } });
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].json.cached).toBeUndefined();
+			});
+
+			it('should return the result URL without downloading when download on hit is off', async () => {
+				const cache = { settings: { ...CACHE.settings, downloadOnHit: false } };
+				const staticData: IDataObject = {};
+				await node.execute.call(
+					createMockExecuteFunctions({ staticData, params: { options: { cache } } }),
+				);
+				const mock = createMockExecuteFunctions({ staticData, params: { options: { cache } } });
+
+				const result = await node.execute.call(mock);
+
+				expect(mock.helpers.httpRequest).not.toHaveBeenCalled();
+				expect(result[0][0].json.cached).toBe(true);
+				expect((result[0][0].json.result as IDataObject).url).toBe(API_RESPONSE.result.url);
+				expect(result[0][0].binary).toBeUndefined();
+			});
+
+			it('should upscale again when a resize or format parameter differs', async () => {
+				const staticData: IDataObject = {};
+				await node.execute.call(
+					createMockExecuteFunctions({ staticData, params: { options: { cache: CACHE } } }),
+				);
+				const mock = createMockExecuteFunctions({
+					staticData,
+					params: { options: { cache: CACHE, outputFormat: 'png' } },
+				});
+
+				await node.execute.call(mock);
+
+				expect(mock.helpers.httpRequestWithAuthentication).toHaveBeenCalledTimes(1);
+				expect(Object.keys(staticData.upscaleCache as IDataObject)).toHaveLength(2);
+			});
+
+			it('should upscale again when the image content differs', async () => {
+				const staticData: IDataObject = {};
+				await node.execute.call(
+					createMockExecuteFunctions({ staticData, params: { options: { cache: CACHE } } }),
+				);
+				const mock = createMockExecuteFunctions({
+					staticData,
+					inputBuffer: createPng(120, 80),
+					params: { options: { cache: CACHE } },
+				});
+
+				await node.execute.call(mock);
+
+				expect(mock.helpers.httpRequestWithAuthentication).toHaveBeenCalledTimes(1);
+			});
+
+			it('should upscale again when the cached result can no longer be downloaded', async () => {
+				const staticData: IDataObject = {};
+				await node.execute.call(
+					createMockExecuteFunctions({ staticData, params: { options: { cache: CACHE } } }),
+				);
+				const mock = createMockExecuteFunctions({
+					staticData,
+					params: { options: { cache: CACHE } },
+				});
+				(mock.helpers.httpRequest as jest.Mock).mockRejectedValueOnce(
+					Object.assign(new Error('Request failed with status code 403'), { httpCode: '403' }),
+				);
+
+				const result = await node.execute.call(mock);
+
+				expect(mock.helpers.httpRequestWithAuthentication).toHaveBeenCalledTimes(1);
+				expect(mock.helpers.httpRequest).toHaveBeenCalledTimes(2);
+				expect(result[0][0].json.cached).toBeUndefined();
+				expect(result[0][0].binary?.data).toEqual(MOCK_BINARY_OUTPUT);
+			});
+
+			it('should not touch the static data when the cache is off', async () => {
+				const staticData: IDataObject = {};
+				const mock = createMockExecuteFunctions({ staticData });
+
+				await node.execute.call(mock);
+
+				expect(staticData).toEqual({});
+				expect(mock.getWorkflowStaticData).not.toHaveBeenCalled();
+			});
+
+			it('should not cache images that are sent to the API as a URL', async () => {
+				const staticData: IDataObject = {};
+				const mock = createMockExecuteFunctions({
+					staticData,
+					params: {
+						inputSource: 'url',
+						imageUrl: 'https://example.com/photo.png',
+						urlHandling: 'passUrl',
+						options: { cache: CACHE },
+					},
+				});
+
+				await node.execute.call(mock);
+
+				expect(staticData).toEqual({});
+			});
+		});
+
+		describe('download hosts', () => {
+			function mockResultUrl(mock: IExecuteFunctions, url: string): void {
+				(mock.helpers.httpRequestWithAuthentication as jest.Mock).mockResolvedValueOnce({
+					...API_RESPONSE,
+					result: { ...API_RESPONSE.result, url },
+				});
+			}
+
+			it.each([
+				[
+					'a host outside the allowlist',
+					'https://attacker.example.com/a.webp',
+					'attacker.example.com is not in the Allowed Download Hosts',
+				],
+				[
+					'a loopback address',
+					'http://127.0.0.1:5678/rest/settings',
+					'127.0.0.1 is not in the Allowed Download Hosts',
+				],
+				[
+					'another protocol',
+					'file:///etc/passwd',
+					'Only HTTP and HTTPS downloads are allowed, not file:.',
+				],
+			])('should block %s without sending a request', async (_name, url, reason) => {
+				const mock = createMockExecuteFunctions({
+					credentials: { apiKey: 'test-api-key-123', allowedDownloadHosts: 's3.example.com' },
+				});
+				mockResultUrl(mock, url);
+
+				await expect(node.execute.call(mock)).rejects.toMatchObject({
+					message: 'The result URL is not allowed',
+					description: expect.stringContaining(reason),
+					context: expect.objectContaining({ code: 'DOWNLOAD_BLOCKED' }),
+				});
+				expect(mock.helpers.httpRequest).not.toHaveBeenCalled();
+			});
+
+			it.each([
+				['the UpscaleIMG storage', 'https://storage.upscaleimg.app/upscaled.webp?signed=1', true],
+				['the Base URL host', 'https://proxy.example.com/files/upscaled.webp', true],
+				['another host', 'https://s3.example.com/upscaled.webp?signed=1', false],
+			])(
+				'should check downloads from %s against the default hosts of an empty allowlist',
+				async (_name, url, allowed) => {
+					const mock = createMockExecuteFunctions({
+						credentials: {
+							apiKey: 'test-api-key-123',
+							baseUrl: 'https://proxy.example.com/upscaleimg/v1',
+							allowedDownloadHosts: ' ',
+						},
+					});
+					mockResultUrl(mock, url);
+					(mock.helpers.httpRequest as jest.Mock).mockResolvedValueOnce(
+						Readable.from([DOWNLOADED_IMAGE]),
+					);
+
+					const execution = node.execute.call(mock);
+
+					if (allowed) {
+						await expect(execution).resolves.toBeDefined();
+						expect(mock.helpers.httpRequest).toHaveBeenCalledWith(
+							expect.objectContaining({ url }),
+						);
+					} else {
+						await expect(execution).rejects.toMatchObject({
+							description: expect.stringContaining(
+								's3.example.com is not in the Allowed Download Hosts',
+							),
+						});
+					}
+				},
+			);
+
+			it('should block loopback addresses even when any host is allowed', async () => {
+				const mock = createMockExecuteFunctions({
+					credentials: { apiKey: 'test-api-key-123', allowedDownloadHosts: '*' },
+				});
+				mockResultUrl(mock, 'http://127.0.0.1:5678/rest/settings');
+
+				await expect(node.execute.call(mock)).rejects.toMatchObject({
+					description: expect.stringContaining(
+						'127.0.0.1 resolves to the private address 127.0.0.1.',
+					),
+				});
+				expect(mock.helpers.httpRequest).not.toHaveBeenCalled();
+			});
+
+			it('should block a redirect to a private address', async () => {
+				const mock = createMockExecuteFunctions({
+					credentials: { apiKey: 'test-api-key-123', allowedDownloadHosts: '*' },
+				});
+				(mock.helpers.httpRequest as jest.Mock).mockRejectedValueOnce({
+					httpCode: '302',
+					response: { headers: { location: 'http://169.254.169.254/latest/meta-data/' } },
+				});
+
+				await expect(node.execute.call(mock)).rejects.toMatchObject({
+					message: 'The result URL is not allowed',
+					description: expect.stringContaining(
+						'169.254.169.254 resolves to the private address 169.254.169.254.',
+					),
+				});
+				expect(mock.helpers.httpRequest).toHaveBeenCalledTimes(1);
+				expect(mock.helpers.httpRequest).toHaveBeenCalledWith(
+					expect.objectContaining({ disableFollowRedirect: true }),
+				);
+			});
+
+			it('should follow redirects to allowed hosts', async () => {
+				const mock = createMockExecuteFunctions();
+				(mock.helpers.httpRequest as jest.Mock)
+					.mockRejectedValueOnce({
+						httpCode: '307',
+						response: { headers: { location: '/moved/upscaled.webp' } },
+					})
+					.mockResolvedValueOnce(Readable.from([DOWNLOADED_IMAGE]));
+
+				const result = await node.execute.call(mock);
+
+				expect(mock.helpers.httpRequest).toHaveBeenLastCalledWith(
+					expect.objectContaining({ url: 'https://s3.example.com/moved/upscaled.webp' }),
+				);
+				expect(result[0][0].binary?.data).toEqual(MOCK_BINARY_OUTPUT);
+			});
+
+			it('should report blocked URLs with continueOnFail', async () => {
+				const mock = createMockExecuteFunctions({ continueOnFail: true });
+				mockResultUrl(mock, 'http://169.254.169.254/latest/meta-data/');
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].json).toEqual({
+					error: 'The result URL is not allowed',
+					code: 'DOWNLOAD_BLOCKED',
+				});
+			});
+
+			it('should block allowed hosts that resolve to a private address', async () => {
+				(lookup as jest.Mock).mockResolvedValueOnce([{ address: '169.254.169.254', family: 4 }]);
+				const mock = createMockExecuteFunctions();
+
+				await expect(node.execute.call(mock)).rejects.toMatchObject({
+					message: 'The result URL is not allowed',
+					description: expect.stringContaining(
+						's3.example.com resolves to the private address 169.254.169.254.',
+					),
+				});
+				expect(lookup).toHaveBeenCalledWith('s3.example.com', { all: true });
+				expect(mock.helpers.httpRequest).not.toHaveBeenCalled();
+			});
+
+			it('should download from configured hosts and private addresses when allowed', async () => {
+				const mock = createMockExecuteFunctions({
+					credentials: {
+						apiKey: 'test-api-key-123',
+						baseUrl: 'http://localhost:8080/api/v1',
+						allowedDownloadHosts: 'localhost, 10.*',
+						allowPrivateDownloads: true,
+					},
+				});
+				mockResultUrl(mock, 'http://10.0.0.5:9000/upscaled.webp');
+				(mock.helpers.httpRequest as jest.Mock).mockResolvedValueOnce(
+					Readable.from([DOWNLOADED_IMAGE]),
+				);
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].binary?.data).toEqual(MOCK_BINARY_OUTPUT);
+
+				expect(mock.helpers.httpRequest).toHaveBeenCalledWith(
+					expect.objectContaining({ url: 'http://10.0.0.5:9000/upscaled.webp' }),
+				);
+			});
+
+			it('should not upscale again when a cached URL is blocked', async () => {
+				const staticData: IDataObject = {};
+				const params = { options: { cache: { settings: {} } } };
+				await node.execute.call(createMockExecuteFunctions({ staticData, params }));
+				const mock = createMockExecuteFunctions({
+					staticData,
+					params,
+					credentials: { apiKey: 'test-api-key-123', allowedDownloadHosts: 'cdn.example.com' },
+				});
+
+				await expect(node.execute.call(mock)).rejects.toMatchObject({
+					context: expect.objectContaining({ code: 'DOWNLOAD_BLOCKED' }),
+				});
+				expect(mock.helpers.httpRequestWithAuthentication).not.toHaveBeenCalled();
+			});
+		});
+
+		describe('response validation', () => {
+			function mockApiResponse(mock: IExecuteFunctions, response: unknown): void {
+				(mock.helpers.httpRequestWithAuthentication as jest.Mock).mockResolvedValueOnce(response);
+			}
+
+			it('should fail with the offending body when the result URL is missing', async () => {
+				const mock = createMockExecuteFunctions();
+				const { url: _url, ...result } = API_RESPONSE.result;
+				mockApiResponse(mock, { ...API_RESPONSE, result });
+
+				const error = await node.execute.call(mock).catch((e: NodeApiError) => e);
+
+				expect(error).toBeInstanceOf(NodeApiError);
+				expect((error as NodeApiError).message).toBe('UpscaleIMG returned an unexpected response');
+				expect((error as NodeApiError).description).toContain('`result.url` is missing.');
+				expect((error as NodeApiError).description).toContain('"mimeType":"image/webp"');
+				expect((error as NodeApiError).context.code).toBe('INVALID_RESPONSE');
+				expect(mock.helpers.httpRequest).not.toHaveBeenCalled();
+			});
+
+			it('should report fields with the wrong type with continueOnFail', async () => {
+				const mock = createMockExecuteFunctions({ continueOnFail: true });
+				mockApiResponse(mock, { ...API_RESPONSE, result: { ...API_RESPONSE.result, width: '200' } });
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].json).toEqual({
+					error: 'UpscaleIMG returned an unexpected response',
+					code: 'INVALID_RESPONSE',
+				});
+			});
+
+			it('should not cache an invalid response', async () => {
+				const staticData: IDataObject = {};
+				const mock = createMockExecuteFunctions({
+					continueOnFail: true,
+					staticData,
+					params: { options: { cache: { settings: {} } } },
+				});
+				mockApiResponse(mock, { message: 'ok' });
+
+				await node.execute.call(mock);
+
+				expect(staticData.upscaleCache ?? {}).toEqual({});
+			});
+
+			it('should pass unknown fields through', async () => {
+				const mock = createMockExecuteFunctions();
+				mockApiResponse(mock, {
+					...API_RESPONSE,
+					original: { ...API_RESPONSE.original, colorSpace: 'srgb' },
+					result: { ...API_RESPONSE.result, model: 'esrgan-v2' },
+					creditsUsed: 1,
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].json.original).toEqual({ ...API_RESPONSE.original, colorSpace: 'srgb' });
+				expect(result[0][0].json.result).toEqual({
+					size: 30,
+					width: 200,
+					height: 200,
+					mimeType: 'image/webp',
+					fileExt: 'webp',
+					model: 'esrgan-v2',
+				});
+			});
+		});
+
+		describe('error handling', () => {
+			it('should return error JSON when continueOnFail is true', async () => {
+				const mock = createMockExecuteFunctions({
+					continueOnFail: true,
+					httpRequestFail: true,
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0]).toHaveLength(1);
+				expect(result[0][0].json).toEqual({
+					error: 'API request failed',
+					code: 'API_ERROR',
+				});
+				expect(result[0][0].pairedItem).toEqual({ item: 0 });
+			});
+
+			it('should throw NodeApiError for API failures when continueOnFail is false', async () => {
+				const mock = createMockExecuteFunctions({
+					continueOnFail: false,
+					httpRequestFail: true,
+				});
+
+				await expect(node.execute.call(mock)).rejects.toThrow(NodeApiError);
+			});
+
+			it('should throw NodeOperationError for other failures when continueOnFail is false', async () => {
+				const mock = createMockExecuteFunctions({
+					continueOnFail: false,
+					assertBinaryDataFail: true,
+				});
+
+				await expect(node.execute.call(mock)).rejects.toThrow(NodeOperationError);
+			});
+
+			it.each([
+				[401, { message: 'Invalid token' }, 'INVALID_API_KEY', 'Invalid UpscaleIMG API key'],
+				[402, { error: 'No credits left' }, 'INSUFFICIENT_CREDITS', 'Out of UpscaleIMG credits'],
+				[
+					403,
+					{ error: { message: 'Scale 4 requires an active subscription' } },
+					'SUBSCRIPTION_REQUIRED',
+					'This upscale requires an UpscaleIMG subscription',
+				],
+				[403, { message: 'Not enough credits' }, 'INSUFFICIENT_CREDITS', 'Out of UpscaleIMG credits'],
+				[413, {}, 'IMAGE_TOO_LARGE', 'The image is too large for the UpscaleIMG API'],
+				[429, {}, 'RATE_LIMITED', 'UpscaleIMG API rate limit reached'],
+				[418, {}, 'API_ERROR', 'The UpscaleIMG API returned status 418'],
+			])(
+				'should map HTTP %i to a NodeApiError with code %s',
+				async (status, data, code, message) => {
+					const mock = createMockExecuteFunctions();
+					(mock.helpers.httpRequestWithAuthentication as jest.Mock).mockImplementation(async () => {
+						throw Object.assign(new Error(`Request failed with status code ${status}`), {
+							httpCode: String(status),
+							response: { status, data },
+						});
+					});
+
+					const error = await node.execute.call(mock).catch((e: NodeApiError) => e);
+
+					expect(error).toBeInstanceOf(NodeApiError);
+					expect((error as NodeApiError).httpCode).toBe(String(status));
+					expect((error as NodeApiError).message).toBe(message);
+					expect((error as NodeApiError).context.code).toBe(code);
+					expect((error as NodeApiError).context.itemIndex).toBe(0);
+					if (Object.keys(data).length) {
+						expect((error as NodeApiError).context.data).toEqual(data);
+					}
+				},
+			);
+
+			it('should include the API error message in the description', async () => {
+				const mock = createMockExecuteFunctions();
+				(mock.helpers.httpRequestWithAuthentication as jest.Mock).mockImplementation(async () => {
+					throw Object.assign(new Error('Request failed with status code 402'), {
+						response: { status: 402, data: { message: 'Balance is 0 credits' } },
+					});
+				});
+
+				const error = (await node.execute.call(mock).catch((e: NodeApiError) => e)) as NodeApiError;
+
+				expect(error.description).toContain('Top up your balance');
+				expect(error.description).toContain('Balance is 0 credits');
+			});
+
+			it('should report network failures with a stable code', async () => {
+				const mock = createMockExecuteFunctions({ continueOnFail: true });
+				(mock.helpers.httpRequestWithAuthentication as jest.Mock).mockImplementation(async () => {
+					throw Object.assign(new Error('getaddrinfo ENOTFOUND upscaleimg.app'), {
+						code: 'ENOTFOUND',
+					});
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].json).toEqual({
+					error: 'Could not reach the UpscaleIMG API',
+					code: 'NETWORK_ERROR',
+				});
+			});
+
+			it('should report invalid input with a stable code', async () => {
+				const mock = createMockExecuteFunctions({
+					continueOnFail: true,
+					params: { inputSource: 'url', imageUrl: 'not a url' },
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0][0].json.code).toBe('INVALID_INPUT');
+			});
+
+			it('should handle missing binary data with continueOnFail', async () => {
+				const mock = createMockExecuteFunctions({
+					continueOnFail: true,
+					assertBinaryDataFail: true,
+				});
+
+				const result = await node.execute.call(mock);
+
+				expect(result[0]).toHaveLength(1);
+				expect(result[0][0].json).toEqual({
+					error: 'No binary data found',
+					code: 'UNKNOWN_ERROR',
+				});
+			});
+		});
+	});
+
+	describe('account', () => {
+		const USAGE_RESPONSE = { plan: 'pro', credits: { used: 12, remaining: 88 } };
+
+		it('should get usage and credits from the usage endpoint', async () => {
+			const mock = createMockExecuteFunctions({
+				params: { resource: 'account', operation: 'getUsage' },
+			});
+			(mock.helpers.httpRequestWithAuthentication as jest.Mock).mockResolvedValueOnce(
+				USAGE_RESPONSE,
+			);
+
+			const result = await node.execute.call(mock);
+
+			expect(result[0]).toEqual([{ json: USAGE_RESPONSE, pairedItem: { item: 0 } }]);
+			expect(mock.helpers.httpRequestWithAuthentication).toHaveBeenCalledWith(
+				'upscaleImgApi',
+				{ method: 'GET', url: 'https://upscaleimg.app/api/v1/usage' },
+			);
+			expect(mock.helpers.httpRequest).not.toHaveBeenCalled();
+			expect(mock.helpers.assertBinaryData).not.toHaveBeenCalled();
+		});
+
+		it('should get usage once per input item', async () => {
+			const mock = createMockExecuteFunctions({
+				params: { resource: 'account', operation: 'getUsage' },
+				items: [{ json: {} }, { json: {} }],
+			});
+
+			const result = await node.execute.call(mock);
+
+			expect(result[0].map((item) => item.pairedItem)).toEqual([{ item: 0 }, { item: 1 }]);
+			expect(mock.helpers.httpRequestWithAuthentication).toHaveBeenCalledTimes(2);
+		});
+
+		it('should map usage errors to stable codes', async () => {
+			const mock = createMockExecuteFunctions({
+				params: { resource: 'account', operation: 'getUsage' },
+				continueOnFail: true,
+			});
+			(mock.helpers.httpRequestWithAuthentication as jest.Mock).mockRejectedValueOnce({
+				message: 'Request failed with status code 401',
+				httpCode: '401',
+			});
+
+			const result = await node.execute.call(mock);
+
+			expect(result[0][0].json).toMatchObject({ code: 'INVALID_API_KEY', statusCode: 401 });
+		});
+
+		it('should keep upscaling in version 1, which has no resource parameter', async () => {
+			const mock = createMockExecuteFunctions();
+
+			const result = await node.execute.call(mock);
+
+			expect(mock.getNodeParameter).toHaveBeenCalledWith('resource', 0, 'image');
+			expect(result[0][0].json.result).toBeDefined();
+			expect(result[0][0].binary?.data).toEqual(MOCK_BINARY_OUTPUT);
 		});
 	});
 });
@@ -0,0 +1,338 @@
+import type {
+	IBinaryData,
+	IDataObject,
+	IHookFunctions,
+	IHttpRequestOptions,
+	IWebhookFunctions,
+} from 'n8n-workflow';
+import { createHmac } from 'crypto';
+import { Readable } from 'stream';
+import { UpscaleImgTrigger } from '../../../nodes/UpscaleImg/UpscaleImgTrigger.node';
+import { createWebp } from './images';
+
+// Result hosts resolve to a public address unless a test says otherwise
+jest.mock('dns/promises', () => ({
+	lookup: jest.fn(async () => [{ address: '203.0.113.10', family: 4 }]),
+}));
+
+// --- Shared test data ---
+
+const SECRET = 'whsec_test';
+
+const COMPLETED_EVENT = {
+	event: 'job.completed',
+	jobId: 'job_123',
+	data: {
+		original: { size: 8, width: 100, height: 100, mimeType: 'image/png', fileExt: 'png' },
+		result: {
+			size: 30,
+			width: 200,
+			height: 200,
+			mimeType: 'image/webp',
+			fileExt: 'webp',
+			url: 'https://s3.example.com/upscaled.webp?signed=1',
+		},
+	},
+};
+
+const DOWNLOADED_IMAGE = createWebp(200, 200);
+
+const MOCK_BINARY_OUTPUT: IBinaryData = {
+	data: 'base64data',
+	mimeType: 'image/webp',
+	fileName: 'upscaled.webp',
+};
+
+function sign(body: string, secret = SECRET): string {
+	return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+// --- Mock factories ---
+
+function createMockHookFunctions(
+	opts: { staticData?: IDataObject; params?: IDataObject; apiFail?: unknown } = {},
+): IHookFunctions {
+	const staticData = opts.staticData ?? {};
+	const params: IDataObject = { events: ['job.completed'], ...opts.params };
+
+	return {
+		getWorkflowStaticData: jest.fn(() => staticData),
+		getNode: jest.fn(() => ({ name: 'UpscaleIMG Trigger', type: 'upscaleImgTrigger' })),
+		getNodeWebhookUrl: jest.fn(() => 'https://n8n.example.com/webhook/abc/webhook'),
+		getNodeParameter: jest.fn((name: string) => params[name]),
+		getCredentials: jest.fn(async () => ({
+			apiKey: 'test-api-key-123',
+			baseUrl: 'https://upscaleimg.app/api/v1',
+		})),
+		helpers: {
+			httpRequestWithAuthentication: jest.fn(async () => {
+				if (opts.apiFail) {
+					throw opts.apiFail;
+				}
+				return { id: 'wh_1', secret: SECRET };
+			}),
+		},
+	} as unknown as IHookFunctions;
+}
+
+function createMockWebhookFunctions(
+	opts: {
+		body?: IDataObject;
+		download?: Buffer;
+		signature?: string;
+		params?: IDataObject;
+		staticData?: IDataObject;
+	} = {},
+): IWebhookFunctions {
+	const body = opts.body ?? COMPLETED_EVENT;
+	const rawBody = JSON.stringify(body);
+	const params: IDataObject = {
+		events: ['job.completed'],
+		downloadImage: false,
+		binaryPropertyName: 'data',
+		...opts.params,
+	};
+	const response = {
+		status: jest.fn().mockReturnThis(),
+		send: jest.fn().mockReturnThis(),
+		end: jest.fn().mockReturnThis(),
+	};
+
+	return {
+		getWorkflowStaticData: jest.fn(
+			() => opts.staticData ?? { webhookId: 'wh_1', webhookSecret: SECRET },
+		),
+		getRequestObject: jest.fn(() => ({ rawBody: Buffer.from(rawBody) })),
+		getResponseObject: jest.fn(() => response),
+		getHeaderData: jest.fn(() => ({
+			'x-upscaleimg-signature': 'signature' in opts ? opts.signature : sign(rawBody),
+		})),
+		getBodyData: jest.fn(() => body),
+		getNode: jest.fn(() => ({ name: 'UpscaleIMG Trigger', type: 'upscaleImgTrigger' })),
+		getCredentials: jest.fn(async () => ({
+			apiKey: 'test-api-key-123',
+			allowedDownloadHosts: 's3.example.com',
+		})),
+		getNodeParameter: jest.fn((name: string, fallback?: unknown) => params[name] ?? fallback),
+		helpers: {
+			httpRequest: jest.fn(async () => Readable.from([opts.download ?? DOWNLOADED_IMAGE])),
+			prepareBinaryData: jest.fn(async (content: Readable) => {
+				for await (const _chunk of content) {
+					// Read to the end like the binary data store does
+				}
+				return MOCK_BINARY_OUTPUT;
+			}),
+		},
+	} as unknown as IWebhookFunctions;
+}
+
+// --- Tests ---
+
+describe('UpscaleImgTrigger Node', () => {
+	const node = new UpscaleImgTrigger();
+	const { checkExists, create, delete: deleteWebhook } = node.webhookMethods.default;
+
+	describe('description', () => {
+		it('should have correct basic metadata', () => {
+			expect(node.description.name).toBe('upscaleImgTrigger');
+			expect(node.description.displayName).toBe('UpscaleIMG Trigger');
+			expect(node.description.group).toEqual(['trigger']);
+			expect(node.description.inputs).toEqual([]);
+			expect(node.description.outputs).toEqual(['main']);
+		});
+
+		it('should reuse the upscaleImgApi credentials', () => {
+			expect(node.description.credentials).toEqual([
+				{ name: 'upscaleImgApi', required: true },
+			]);
+		});
+
+		it('should show the output field only when downloading', () => {
+			const binaryProp = node.description.properties.find((p) => p.name === 'binaryPropertyName');
+			expect(binaryProp?.displayOptions?.show?.downloadImage).toEqual([true]);
+		});
+	});
+
+	describe('webhook registration', () => {
+		it('should register the webhook URL for the selected events', async () => {
+			const staticData: IDataObject = {};
+			const mock = createMockHookFunctions({
+				staticData,
+				params: { events: ['job.completed', 'job.failed'] },
+			});
+
+			expect(await create.call(mock)).toBe(true);
+
+			expect(mock.helpers.httpRequestWithAuthentication).toHaveBeenCalledWith('upscaleImgApi', {
+				method: 'POST',
+				url: 'https://upscaleimg.app/api/v1/webhooks',
+				body: {
+					url: 'https://n8n.example.com/webhook/abc/webhook',
+					events: ['job.completed', 'job.failed'],
+				},
+			});
+			expect(staticData).toEqual({ webhookId: 'wh_1', webhookSecret: SECRET });
+		});
+
+		it('should delete the webhook again when the API returns no secret', async () => {
+			const staticData: IDataObject = {};
+			const mock = createMockHookFunctions({ staticData });
+			(mock.helpers.httpRequestWithAuthentication as jest.Mock).mockResolvedValueOnce({
+				id: 'wh_2',
+			});
+
+			await expect(create.call(mock)).rejects.toThrow(
+				'UpscaleIMG did not return a secret for the webhook',
+			);
+
+			expect(mock.helpers.httpRequestWithAuthentication).toHaveBeenLastCalledWith(
+				'upscaleImgApi',
+				expect.objectContaining({
+					method: 'DELETE',
+					url: 'https://upscaleimg.app/api/v1/webhooks/wh_2',
+				}),
+			);
+			expect(staticData).toEqual({});
+		});
+
+		it('should report a missing registration', async () => {
+			const mock = createMockHookFunctions();
+
+			expect(await checkExists.call(mock)).toBe(false);
+			expect(mock.helpers.httpRequestWithAuthentication).not.toHaveBeenCalled();
+		});
+
+		it('should confirm a registration that still exists', async () => {
+			const mock = createMockHookFunctions({ staticData: { webhookId: 'wh_1' } });
+
+			expect(await checkExists.call(mock)).toBe(true);
+			expect(mock.helpers.httpRequestWithAuthentication).toHaveBeenCalledWith('upscaleImgApi', {
+				method: 'GET',
+				url: 'https://upscaleimg.app/api/v1/webhooks/wh_1',
+			});
+		});
+
+		it('should forget a registration that was deleted on the API side', async () => {
+			const staticData: IDataObject = { webhookId: 'wh_1', webhookSecret: SECRET };
+			const mock = createMockHookFunctions({ staticData, apiFail: { httpCode: '404' } });
+
+			expect(await checkExists.call(mock)).toBe(false);
+			expect(staticData).toEqual({});
+		});
+
+		it('should delete the registration', async () => {
+			const staticData: IDataObject = { webhookId: 'wh_1', webhookSecret: SECRET };
+			const mock = createMockHookFunctions({ staticData });
+
+			expect(await deleteWebhook.call(mock)).toBe(true);
+
+			const options = (mock.helpers.httpRequestWithAuthentication as jest.Mock).mock
+				.calls[0][1] as IHttpRequestOptions;
+			expect(options.method).toBe('DELETE');
+			expect(options.url).toBe('https://upscaleimg.app/api/v1/webhooks/wh_1');
+			expect(staticData).toEqual({});
+		});
+	});
+
+	describe('webhook', () => {
+		it('should emit the event with the result metadata', async () => {
+			const mock = createMockWebhookFunctions();
+
+			const result = await node.webhook.call(mock);
+
+			expect(result.workflowData).toEqual([
+				[
+					{
+						json: {
+							event: 'job.completed',
+							jobId: 'job_123',
+							original: COMPLETED_EVENT.data.original,
+							result: COMPLETED_EVENT.data.result,
+						},
+					},
+				],
+			]);
+			expect(mock.helpers.httpRequest).not.toHaveBeenCalled();
+		});
+
+		it('should download the upscaled image without credentials when enabled', async () => {
+			const mock = createMockWebhookFunctions({
+				params: { downloadImage: true, binaryPropertyName: 'upscaled' },
+			});
+
+			const result = await node.webhook.call(mock);
+
+			expect(mock.helpers.httpRequest).toHaveBeenCalledWith({
+				method: 'GET',
+				url: COMPLETED_EVENT.data.result.url,
+				encoding: 'stream',
+				disableFollowRedirect: true,
+			});
+			expect(mock.helpers.prepareBinaryData).toHaveBeenCalledWith(
+				expect.any(Readable),
+				'upscaled.webp',
+				'image/webp',
+			);
+			expect(result.workflowData?.[0][0].binary).toEqual({ upscaled: MOCK_BINARY_OUTPUT });
+		});
+
+		it('should fail when the download does not match the event', async () => {
+			const mock = createMockWebhookFunctions({
+				download: Buffer.from('<Error><Code>AccessDenied</Code></Error>'),
+				params: { downloadImage: true },
+			});
+
+			await expect(node.webhook.call(mock)).rejects.toMatchObject({
+				message: 'The downloaded image does not match the API response',
+				context: expect.objectContaining({ code: 'RESULT_MISMATCH' }),
+			});
+		});
+
+		it('should emit failed jobs without downloading', async () => {
+			const mock = createMockWebhookFunctions({
+				body: { event: 'job.failed', jobId: 'job_123', data: { error: { message: 'Corrupt' } } },
+				params: { events: ['job.failed'], downloadImage: true },
+			});
+
+			const result = await node.webhook.call(mock);
+
+			expect(result.workflowData?.[0][0].json).toEqual({
+				event: 'job.failed',
+				jobId: 'job_123',
+				error: { message: 'Corrupt' },
+			});
+			expect(mock.helpers.httpRequest).not.toHaveBeenCalled();
+		});
+
+		it('should acknowledge events the node does not listen to without starting the workflow', async () => {
+			const mock = createMockWebhookFunctions({
+				body: { event: 'job.failed', jobId: 'job_123', data: {} },
+			});
+
+			const result = await node.webhook.call(mock);
+
+			expect(result).toEqual({ webhookResponse: 'OK' });
+		});
+
+		it.each([
+			['an invalid signature', sign(JSON.stringify(COMPLETED_EVENT), 'whsec_other')],
+			['a missing signature', undefined],
+		])('should reject events with %s', async (_name, signature) => {
+			const mock = createMockWebhookFunctions({ signature });
+
+			const result = await node.webhook.call(mock);
+
+			const response = mock.getResponseObject() as unknown as { status: jest.Mock };
+			expect(result).toEqual({ noWebhookResponse: true });
+			expect(response.status).toHaveBeenCalledWith(401);
+		});
+
+		it('should reject events when no secret was stored', async () => {
+			const mock = createMockWebhookFunctions({ staticData: {} });
+
+			const result = await node.webhook.call(mock);
+
+			expect(result).toEqual({ noWebhookResponse: true });
+		});
+	});
+});
@@ -0,0 +1,91 @@
+// Minimal, structurally valid image files for tests. Pixel data and checksums are not real.
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const PNG_IEND = Buffer.from([0, 0, 0, 0, 0x49, 0x45, 0x4e, 0x44, 0xae, 0x42, 0x60, 0x82]);
+
+function pngChunk(type: string, data: Buffer): Buffer {
+	const length = Buffer.alloc(4);
+	length.writeUInt32BE(data.length);
+	return Buffer.concat([length, Buffer.from(type, 'latin1'), data, Buffer.alloc(4)]);
+}
+
+export function createPng(width: number, height: number): Buffer {
+	const ihdr = Buffer.alloc(13);
+	ihdr.writeUInt32BE(width, 0);
+	ihdr.writeUInt32BE(height, 4);
+	ihdr[8] = 8;
+	ihdr[9] = 6;
+	return Buffer.concat([
+		PNG_SIGNATURE,
+		pngChunk('IHDR', ihdr),
+		pngChunk('IDAT', Buffer.alloc(8)),
+		PNG_IEND,
+	]);
+}
+
+/**
+ * An APP1 segment with EXIF data that holds only the orientation tag.
+ */
+export function createExifSegment(orientation: number, littleEndian = true): Buffer {
+	const tiff = Buffer.alloc(26);
+	const writeUInt16 = (value: number, offset: number) =>
+		littleEndian ? tiff.writeUInt16LE(value, offset) : tiff.writeUInt16BE(value, offset);
+	tiff.write(littleEndian ? 'II' : 'MM', 0, 'latin1');
+	writeUInt16(42, 2);
+	if (littleEndian) {
+		tiff.writeUInt32LE(8, 4);
+	} else {
+		tiff.writeUInt32BE(8, 4);
+	}
+	writeUInt16(1, 8);
+	writeUInt16(0x0112, 10);
+	writeUInt16(3, 12);
+	if (littleEndian) {
+		tiff.writeUInt32LE(1, 14);
+	} else {
+		tiff.writeUInt32BE(1, 14);
+	}
+	writeUInt16(orientation, 18);
+	const header = Buffer.from([0xff, 0xe1, 0, 0, 0x45, 0x78, 0x69, 0x66, 0, 0]);
+	header.writeUInt16BE(header.length - 2 + tiff.length, 2);
+	return Buffer.concat([header, tiff]);
+}
+
+export function createJpeg(width: number, height: number, exif?: Buffer): Buffer {
+	const app0 = Buffer.from([
+		0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01,
+		0x00, 0x00,
+	]);
+	const sof0 = Buffer.from([0xff, 0xc0, 0x00, 0x11, 0x08, 0, 0, 0, 0, 0x03, 1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1]);
+	sof0.writeUInt16BE(height, 5);
+	sof0.writeUInt16BE(width, 7);
+	return Buffer.concat([
+		Buffer.from([0xff, 0xd8]),
+		app0,
+		...(exif ? [exif] : []),
+		sof0,
+		Buffer.alloc(8),
+		Buffer.from([0xff, 0xd9]),
+	]);
+}
+
+export function createWebp(width: number, height: number): Buffer {
+	const vp8x = Buffer.alloc(18);
+	vp8x.write('VP8X', 0, 'latin1');
+	vp8x.writeUInt32LE(10, 4);
+	vp8x.writeUIntLE(width - 1, 12, 3);
+	vp8x.writeUIntLE(height - 1, 15, 3);
+	const header = Buffer.alloc(12);
+	header.write('RIFF', 0, 'latin1');
+	header.writeUInt32LE(4 + vp8x.length, 4);
+	header.write('WEBP', 8, 'latin1');
+	return Buffer.concat([header, vp8x]);
+}
+
+export function createGif(width: number, height: number): Buffer {
+	const header = Buffer.alloc(13);
+	header.write('GIF89a', 0, 'latin1');
+	header.writeUInt16LE(width, 6);
+	header.writeUInt16LE(height, 8);
+	return Buffer.concat([header, Buffer.alloc(4), Buffer.from([0x3b])]);
+}